@@ -0,0 +1,20 @@
+-- Teams and their members; every team keeps at least one owner
+CREATE TABLE teams (
+  id {{PRIMARY_KEY}},
+  name VARCHAR(255) NOT NULL,
+  description TEXT,
+  created_by INTEGER NOT NULL REFERENCES users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE team_members (
+  id {{PRIMARY_KEY}},
+  team_id INTEGER NOT NULL REFERENCES teams(id) ON DELETE CASCADE,
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  role VARCHAR(20) NOT NULL DEFAULT 'member' CHECK (role IN ('owner', 'admin', 'member')),
+  joined_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE (team_id, user_id)
+);
+
+CREATE INDEX idx_team_members_user_id ON team_members (user_id);
@@ -0,0 +1,14 @@
+CREATE TABLE projects (
+  id {{PRIMARY_KEY}},
+  name VARCHAR(255) NOT NULL,
+  description TEXT,
+  team_id INTEGER NOT NULL REFERENCES teams(id) ON DELETE CASCADE,
+  status VARCHAR(20) NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'completed', 'archived')),
+  start_date TIMESTAMPTZ,
+  due_date TIMESTAMPTZ,
+  created_by INTEGER NOT NULL REFERENCES users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_projects_team_id ON projects (team_id);
@@ -0,0 +1,2 @@
+DROP TABLE IF EXISTS task_dependencies;
+DROP TABLE IF EXISTS tasks;
@@ -0,0 +1,32 @@
+-- Tasks plus the "blocks / blocked-by" links between them
+CREATE TABLE tasks (
+  id {{PRIMARY_KEY}},
+  title VARCHAR(255) NOT NULL,
+  description TEXT,
+  project_id INTEGER NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  assigned_to INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  created_by_id INTEGER NOT NULL REFERENCES users(id),
+  status VARCHAR(20) NOT NULL DEFAULT 'todo' CHECK (status IN ('todo', 'in_progress', 'review', 'completed')),
+  priority VARCHAR(20) NOT NULL DEFAULT 'medium' CHECK (priority IN ('low', 'medium', 'high', 'urgent')),
+  tags TEXT NOT NULL DEFAULT '[]',
+  due_date TIMESTAMPTZ,
+  estimated_hours DECIMAL(8, 2),
+  actual_hours DECIMAL(8, 2),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  completed_at TIMESTAMPTZ
+);
+
+CREATE INDEX idx_tasks_project_id ON tasks (project_id);
+CREATE INDEX idx_tasks_assigned_to ON tasks (assigned_to);
+CREATE INDEX idx_tasks_status_due_date ON tasks (status, due_date);
+
+CREATE TABLE task_dependencies (
+  blocker_id INTEGER NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+  blocked_id INTEGER NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (blocker_id, blocked_id),
+  CHECK (blocker_id <> blocked_id)
+);
+
+CREATE INDEX idx_task_dependencies_blocked_id ON task_dependencies (blocked_id);
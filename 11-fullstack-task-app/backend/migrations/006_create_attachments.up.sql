@@ -0,0 +1,15 @@
+-- file_name is the SHA-256 of the content; identical uploads share one file
+CREATE TABLE attachments (
+  id {{PRIMARY_KEY}},
+  task_id INTEGER NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+  uploaded_by_id INTEGER NOT NULL REFERENCES users(id),
+  file_name VARCHAR(64) NOT NULL,
+  original_name VARCHAR(255) NOT NULL,
+  mime_type VARCHAR(255) NOT NULL,
+  file_size BIGINT NOT NULL,
+  file_path VARCHAR(512) NOT NULL,
+  uploaded_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_attachments_task_id ON attachments (task_id);
+CREATE INDEX idx_attachments_file_path ON attachments (file_path);
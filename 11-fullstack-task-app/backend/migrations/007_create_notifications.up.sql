@@ -0,0 +1,13 @@
+CREATE TABLE notifications (
+  id {{PRIMARY_KEY}},
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  type VARCHAR(32) NOT NULL,
+  title VARCHAR(255) NOT NULL,
+  message TEXT NOT NULL,
+  data TEXT,
+  is_read BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  read_at TIMESTAMPTZ
+);
+
+CREATE INDEX idx_notifications_user_id ON notifications (user_id, is_read, created_at);
@@ -0,0 +1,14 @@
+-- Field-level change history; entity rows may be deleted, so there is no foreign key on entity_id
+CREATE TABLE activity_log (
+  id {{PRIMARY_KEY}},
+  entity_type VARCHAR(32) NOT NULL,
+  entity_id INTEGER NOT NULL,
+  action VARCHAR(20) NOT NULL CHECK (action IN ('created', 'updated', 'deleted')),
+  user_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  changes TEXT NOT NULL DEFAULT '[]',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_activity_log_entity ON activity_log (entity_type, entity_id, created_at);
+CREATE INDEX idx_activity_log_user_id ON activity_log (user_id, created_at);
+CREATE INDEX idx_activity_log_created_at ON activity_log (created_at);
@@ -0,0 +1,2 @@
+-- Incremented on every write; exposed to clients as the task's ETag
+ALTER TABLE tasks ADD COLUMN version INTEGER NOT NULL DEFAULT 1;
@@ -0,0 +1,7 @@
+DROP INDEX IF EXISTS idx_projects_search_vector;
+DROP INDEX IF EXISTS idx_comments_search_vector;
+DROP INDEX IF EXISTS idx_tasks_search_vector;
+
+ALTER TABLE projects DROP COLUMN search_vector;
+ALTER TABLE comments DROP COLUMN search_vector;
+ALTER TABLE tasks DROP COLUMN search_vector;
@@ -0,0 +1,51 @@
+-- Local development fallback: FTS5 indexes over the same columns,
+-- synchronised with their source tables by triggers
+CREATE VIRTUAL TABLE tasks_fts USING fts5(title, description, tags, content='tasks', content_rowid='id');
+
+CREATE TRIGGER tasks_fts_insert AFTER INSERT ON tasks BEGIN
+  INSERT INTO tasks_fts (rowid, title, description, tags) VALUES (new.id, new.title, new.description, new.tags);
+END;
+
+CREATE TRIGGER tasks_fts_delete AFTER DELETE ON tasks BEGIN
+  INSERT INTO tasks_fts (tasks_fts, rowid, title, description, tags) VALUES ('delete', old.id, old.title, old.description, old.tags);
+END;
+
+CREATE TRIGGER tasks_fts_update AFTER UPDATE OF title, description, tags ON tasks BEGIN
+  INSERT INTO tasks_fts (tasks_fts, rowid, title, description, tags) VALUES ('delete', old.id, old.title, old.description, old.tags);
+  INSERT INTO tasks_fts (rowid, title, description, tags) VALUES (new.id, new.title, new.description, new.tags);
+END;
+
+CREATE VIRTUAL TABLE comments_fts USING fts5(content, content='comments', content_rowid='id');
+
+CREATE TRIGGER comments_fts_insert AFTER INSERT ON comments BEGIN
+  INSERT INTO comments_fts (rowid, content) VALUES (new.id, new.content);
+END;
+
+CREATE TRIGGER comments_fts_delete AFTER DELETE ON comments BEGIN
+  INSERT INTO comments_fts (comments_fts, rowid, content) VALUES ('delete', old.id, old.content);
+END;
+
+CREATE TRIGGER comments_fts_update AFTER UPDATE OF content ON comments BEGIN
+  INSERT INTO comments_fts (comments_fts, rowid, content) VALUES ('delete', old.id, old.content);
+  INSERT INTO comments_fts (rowid, content) VALUES (new.id, new.content);
+END;
+
+CREATE VIRTUAL TABLE projects_fts USING fts5(name, description, content='projects', content_rowid='id');
+
+CREATE TRIGGER projects_fts_insert AFTER INSERT ON projects BEGIN
+  INSERT INTO projects_fts (rowid, name, description) VALUES (new.id, new.name, new.description);
+END;
+
+CREATE TRIGGER projects_fts_delete AFTER DELETE ON projects BEGIN
+  INSERT INTO projects_fts (projects_fts, rowid, name, description) VALUES ('delete', old.id, old.name, old.description);
+END;
+
+CREATE TRIGGER projects_fts_update AFTER UPDATE OF name, description ON projects BEGIN
+  INSERT INTO projects_fts (projects_fts, rowid, name, description) VALUES ('delete', old.id, old.name, old.description);
+  INSERT INTO projects_fts (rowid, name, description) VALUES (new.id, new.name, new.description);
+END;
+
+-- Index rows that existed before this migration
+INSERT INTO tasks_fts (tasks_fts) VALUES ('rebuild');
+INSERT INTO comments_fts (comments_fts) VALUES ('rebuild');
+INSERT INTO projects_fts (projects_fts) VALUES ('rebuild');
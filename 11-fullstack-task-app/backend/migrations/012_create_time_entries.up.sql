@@ -0,0 +1,18 @@
+-- Time logged against tasks, either by a start/stop timer or entered manually.
+-- A running timer has no ended_at; each user can have at most one.
+CREATE TABLE time_entries (
+  id {{PRIMARY_KEY}},
+  task_id INTEGER NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  source VARCHAR(10) NOT NULL DEFAULT 'manual' CHECK (source IN ('timer', 'manual')),
+  started_at TIMESTAMPTZ NOT NULL,
+  ended_at TIMESTAMPTZ,
+  duration_seconds INTEGER CHECK (duration_seconds >= 0),
+  note TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_time_entries_task_id ON time_entries (task_id, started_at);
+CREATE INDEX idx_time_entries_user_id ON time_entries (user_id, started_at);
+CREATE UNIQUE INDEX idx_time_entries_running ON time_entries (user_id) WHERE ended_at IS NULL;
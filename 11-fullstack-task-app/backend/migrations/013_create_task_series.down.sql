@@ -0,0 +1,5 @@
+DROP INDEX idx_tasks_series_id;
+
+ALTER TABLE tasks DROP COLUMN series_id;
+
+DROP TABLE IF EXISTS task_series;
@@ -0,0 +1,28 @@
+-- Recurring tasks: a series holds the schedule, and every occurrence is an
+-- ordinary task pointing back at it through tasks.series_id
+CREATE TABLE task_series (
+  id {{PRIMARY_KEY}},
+  project_id INTEGER NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  frequency VARCHAR(10) NOT NULL CHECK (frequency IN ('daily', 'weekly', 'monthly')),
+  interval_count INTEGER NOT NULL DEFAULT 1 CHECK (interval_count >= 1),
+  weekdays TEXT,
+  month_day INTEGER CHECK (month_day BETWEEN 1 AND 31),
+  anchor_at TIMESTAMPTZ NOT NULL,
+  ends_at TIMESTAMPTZ,
+  max_occurrences INTEGER CHECK (max_occurrences >= 1),
+  occurrence_count INTEGER NOT NULL DEFAULT 1,
+  next_due_at TIMESTAMPTZ,
+  last_task_id INTEGER,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_by INTEGER NOT NULL REFERENCES users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_task_series_next_due_at ON task_series (is_active, next_due_at);
+
+-- No REFERENCES clause: SQLite cannot drop a foreign key column on rollback.
+-- Series are only removed together with their project, which removes the tasks too.
+ALTER TABLE tasks ADD COLUMN series_id INTEGER;
+
+CREATE INDEX idx_tasks_series_id ON tasks (series_id);
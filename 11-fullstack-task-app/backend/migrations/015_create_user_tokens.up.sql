@@ -0,0 +1,15 @@
+-- Single-use tokens sent by email (password reset, email verification). Only
+-- their SHA-256 is stored; used_at is set when a token is redeemed or replaced.
+CREATE TABLE user_tokens (
+  id {{PRIMARY_KEY}},
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  purpose VARCHAR(32) NOT NULL CHECK (purpose IN ('password_reset', 'email_verification')),
+  token_hash VARCHAR(64) NOT NULL UNIQUE,
+  expires_at TIMESTAMPTZ NOT NULL,
+  used_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_user_tokens_user_id ON user_tokens (user_id, purpose);
+
+ALTER TABLE users ADD COLUMN email_verified_at TIMESTAMPTZ;
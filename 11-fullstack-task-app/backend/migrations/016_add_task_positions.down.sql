@@ -0,0 +1,3 @@
+DROP INDEX idx_tasks_board_position;
+
+ALTER TABLE tasks DROP COLUMN position;
@@ -0,0 +1,12 @@
+-- Kanban ordering: tasks sort by position within their (project, status) column.
+-- Positions are fractional, so a move only rewrites the moved task; existing
+-- tasks start out spaced 1024 apart in creation order.
+ALTER TABLE tasks ADD COLUMN position DOUBLE PRECISION NOT NULL DEFAULT 0;
+
+UPDATE tasks SET position = 1024 * (
+  SELECT COUNT(*) FROM tasks o
+  WHERE o.project_id = tasks.project_id AND o.status = tasks.status
+    AND (o.created_at < tasks.created_at OR (o.created_at = tasks.created_at AND o.id <= tasks.id))
+);
+
+CREATE INDEX idx_tasks_board_position ON tasks (project_id, status, position);
@@ -0,0 +1,25 @@
+/**
+ * Rebuild the development database from scratch:
+ * roll back every migration, apply them again and load the seed data
+ */
+
+import { db, migrator, guardProduction } from './db';
+import { seed } from './seed';
+
+guardProduction('db:reset');
+
+try {
+  const reverted = await migrator.rollback(Number.MAX_SAFE_INTEGER);
+  console.log(`↩️  Rolled back ${reverted.length} migration(s)`);
+
+  const applied = await migrator.migrate();
+  console.log(`✅ Applied ${applied.length} migration(s)`);
+
+  await seed();
+  console.log('🌱 Seeded demo data');
+} catch (error: any) {
+  console.error('❌ Reset failed:', error.message);
+  process.exitCode = 1;
+} finally {
+  await db.close();
+}
@@ -0,0 +1,28 @@
+/**
+ * Roll back the most recent migrations
+ *
+ * Usage:
+ *   bun run migrate:rollback         Roll back the last migration
+ *   bun run migrate:rollback 3       Roll back the last three migrations
+ */
+
+import { db, migrator, guardProduction } from './db';
+
+guardProduction('rollback');
+
+const steps = parseInt(process.argv.slice(2).find(value => !value.startsWith('--')) || '1');
+
+try {
+  const reverted = await migrator.rollback(steps);
+
+  if (reverted.length === 0) {
+    console.log('ℹ️  Nothing to roll back');
+  }
+
+  reverted.forEach(migration => console.log(`↩️  Rolled back ${migration.version}_${migration.name}`));
+} catch (error: any) {
+  console.error('❌ Rollback failed:', error.message);
+  process.exitCode = 1;
+} finally {
+  await db.close();
+}
@@ -0,0 +1,82 @@
+/**
+ * Database migration CLI
+ *
+ * Usage:
+ *   bun run migrate                  Apply all pending migrations
+ *   bun run migrate status           Show applied and pending migrations
+ *   bun run migrate rollback [n]     Roll back the last n migrations (default 1)
+ */
+
+import { db, dialect, migrator, guardProduction } from './db';
+
+async function migrate() {
+  const applied = await migrator.migrate();
+
+  if (applied.length === 0) {
+    console.log('✅ Database is up to date');
+    return;
+  }
+
+  applied.forEach(migration => console.log(`✅ Applied ${migration.version}_${migration.name}`));
+  console.log(`🎉 ${applied.length} migration(s) applied`);
+}
+
+async function rollback(steps: number) {
+  guardProduction('rollback');
+
+  const reverted = await migrator.rollback(steps);
+
+  if (reverted.length === 0) {
+    console.log('ℹ️  Nothing to roll back');
+    return;
+  }
+
+  reverted.forEach(migration => console.log(`↩️  Rolled back ${migration.version}_${migration.name}`));
+}
+
+async function status() {
+  const statuses = await migrator.status();
+
+  console.log(`📋 Migration status (${dialect})`);
+  statuses.forEach(entry => {
+    const state = entry.missingFile
+      ? '⚠️  missing file'
+      : entry.checksumMismatch
+        ? '❌ checksum mismatch'
+        : entry.applied
+          ? `✅ applied ${entry.appliedAt}`
+          : '⏳ pending';
+
+    console.log(`  ${entry.version}_${entry.name}  ${state}`);
+  });
+
+  if (statuses.some(entry => entry.checksumMismatch || entry.missingFile)) {
+    process.exitCode = 1;
+  }
+}
+
+const [command = 'migrate', arg] = process.argv.slice(2).filter(value => !value.startsWith('--'));
+
+try {
+  switch (command) {
+    case 'migrate':
+    case 'up':
+      await migrate();
+      break;
+    case 'rollback':
+    case 'down':
+      await rollback(arg ? parseInt(arg) : 1);
+      break;
+    case 'status':
+      await status();
+      break;
+    default:
+      console.error(`Unknown command "${command}". Use migrate, rollback or status.`);
+      process.exitCode = 1;
+  }
+} catch (error: any) {
+  console.error('❌ Migration failed:', error.message);
+  process.exitCode = 1;
+} finally {
+  await db.close();
+}
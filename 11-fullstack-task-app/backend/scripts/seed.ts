@@ -0,0 +1,142 @@
+/**
+ * Development seed data
+ *
+ * Creates demo users, a team, projects and tasks so the app has something to
+ * show after `bun run migrate`. Safe to run twice: it stops if the demo admin
+ * already exists. Every seeded account uses the password "password123".
+ */
+
+import { createHash } from 'crypto';
+import { db, dialect, guardProduction } from './db';
+
+const DEMO_PASSWORD = 'password123';
+
+const users = [
+  { name: 'Ada Admin', email: 'admin@taskflow.dev', role: 'admin' },
+  { name: 'Max Manager', email: 'manager@taskflow.dev', role: 'manager' },
+  { name: 'Mia Member', email: 'member@taskflow.dev', role: 'member' }
+] as const;
+
+function daysFromNow(days: number): string {
+  return new Date(Date.now() + days * 24 * 60 * 60 * 1000).toISOString();
+}
+
+export async function seed(): Promise<boolean> {
+  const existing = await db.get('SELECT id FROM users WHERE email = ?', [users[0].email]);
+  if (existing) return false;
+
+  const passwordHash = createHash('sha256').update(DEMO_PASSWORD).digest('hex');
+
+  await db.run(dialect === 'postgres' ? 'BEGIN' : 'BEGIN TRANSACTION');
+
+  try {
+    const userIds: number[] = [];
+    for (const user of users) {
+      const result = await db.run(
+        `INSERT INTO users (name, email, password_hash, role, is_active, email_verified_at, created_at, updated_at)
+         VALUES (?, ?, ?, ?, true, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP)`,
+        [user.name, user.email, passwordHash, user.role]
+      );
+      userIds.push(result.lastInsertRowid as number);
+    }
+    const [adminId, managerId, memberId] = userIds as [number, number, number];
+
+    const team = await db.run(
+      `INSERT INTO teams (name, description, created_by, created_at, updated_at)
+       VALUES (?, ?, ?, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP)`,
+      ['Product Team', 'Builds and ships TaskFlow', managerId]
+    );
+    const teamId = team.lastInsertRowid as number;
+
+    for (const [userId, role] of [[managerId, 'owner'], [adminId, 'admin'], [memberId, 'member']] as const) {
+      await db.run(
+        `INSERT INTO team_members (team_id, user_id, role, joined_at)
+         VALUES (?, ?, ?, CURRENT_TIMESTAMP)`,
+        [teamId, userId, role]
+      );
+    }
+
+    const projectIds: number[] = [];
+    for (const project of [
+      { name: 'Website Redesign', description: 'Refresh the marketing site', dueDate: daysFromNow(30) },
+      { name: 'Mobile App', description: 'First release of the mobile client', dueDate: daysFromNow(90) }
+    ]) {
+      const result = await db.run(
+        `INSERT INTO projects (name, description, team_id, status, start_date, due_date,
+                               created_by, created_at, updated_at)
+         VALUES (?, ?, ?, 'active', CURRENT_TIMESTAMP, ?, ?, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP)`,
+        [project.name, project.description, teamId, project.dueDate, managerId]
+      );
+      projectIds.push(result.lastInsertRowid as number);
+    }
+    const [websiteId, mobileId] = projectIds as [number, number];
+
+    const tasks = [
+      { title: 'Audit current pages', projectId: websiteId, assignedTo: memberId, status: 'completed', priority: 'medium', tags: ['research'], dueDate: daysFromNow(-3), estimatedHours: 4 },
+      { title: 'Design new homepage', projectId: websiteId, assignedTo: memberId, status: 'in_progress', priority: 'high', tags: ['design'], dueDate: daysFromNow(1), estimatedHours: 12 },
+      { title: 'Implement homepage', projectId: websiteId, assignedTo: managerId, status: 'todo', priority: 'high', tags: ['frontend'], dueDate: daysFromNow(10), estimatedHours: 16 },
+      { title: 'Write launch announcement', projectId: websiteId, assignedTo: null, status: 'todo', priority: 'low', tags: ['marketing'], dueDate: daysFromNow(25), estimatedHours: 2 },
+      { title: 'Set up app project', projectId: mobileId, assignedTo: managerId, status: 'review', priority: 'medium', tags: ['setup'], dueDate: daysFromNow(-1), estimatedHours: 3 },
+      { title: 'Offline sync prototype', projectId: mobileId, assignedTo: memberId, status: 'todo', priority: 'urgent', tags: ['backend', 'spike'], dueDate: daysFromNow(5), estimatedHours: 20 }
+    ];
+
+    const taskIds: number[] = [];
+    for (const task of tasks) {
+      const result = await db.run(
+        `INSERT INTO tasks (title, project_id, assigned_to, created_by_id, status, priority, tags,
+                            due_date, estimated_hours, position, created_at, updated_at, completed_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP, ?)`,
+        [
+          task.title,
+          task.projectId,
+          task.assignedTo,
+          managerId,
+          task.status,
+          task.priority,
+          JSON.stringify(task.tags),
+          task.dueDate,
+          task.estimatedHours,
+          (taskIds.length + 1) * 1024, // listed order within each board column
+          task.status === 'completed' ? new Date().toISOString() : null
+        ]
+      );
+      taskIds.push(result.lastInsertRowid as number);
+    }
+
+    // The homepage has to be designed before it can be implemented
+    await db.run(
+      `INSERT INTO task_dependencies (blocker_id, blocked_id, created_at)
+       VALUES (?, ?, CURRENT_TIMESTAMP)`,
+      [taskIds[1], taskIds[2]]
+    );
+
+    await db.run(
+      `INSERT INTO comments (task_id, user_id, content, created_at, updated_at)
+       VALUES (?, ?, ?, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP)`,
+      [taskIds[1], managerId, 'First drafts look great, let us review them on Friday.']
+    );
+
+    await db.run('COMMIT');
+  } catch (error) {
+    await db.run('ROLLBACK');
+    throw error;
+  }
+
+  return true;
+}
+
+if (import.meta.main) {
+  guardProduction('seed');
+
+  try {
+    const seeded = await seed();
+    console.log(seeded
+      ? `🌱 Seeded demo data (log in as ${users.map(user => user.email).join(', ')} / ${DEMO_PASSWORD})`
+      : 'ℹ️  Demo data already present, nothing to do');
+  } catch (error: any) {
+    console.error('❌ Seeding failed:', error.message);
+    process.exitCode = 1;
+  } finally {
+    await db.close();
+  }
+}
@@ -0,0 +1,65 @@
+import { ErrorHandler } from '../middleware/errors';
+import { ActivityModel } from '../models/activity';
+import { TaskModel } from '../models/task';
+import type { AuditFilters, User } from '../../../shared/types';
+
+export class ActivityController {
+  static async getTaskActivity(request: Request, params: any, user: User): Promise<Response> {
+    try {
+      const taskId = parseInt(params.id);
+      const url = new URL(request.url);
+      const page = parseInt(url.searchParams.get('page') || '1');
+      const limit = Math.min(parseInt(url.searchParams.get('limit') || '20'), 100);
+
+      const task = await TaskModel.findAccessible(taskId, user);
+      if (!task) {
+        return ErrorHandler.notFound('Task');
+      }
+
+      const result = await ActivityModel.findMany({ entityType: 'task', entityId: taskId }, page, limit);
+
+      return Response.json({
+        success: true,
+        data: result.entries,
+        pagination: result.pagination
+      });
+
+    } catch (error) {
+      return ErrorHandler.handle(error);
+    }
+  }
+
+  static async getAuditLog(request: Request, _params: any, _user: User): Promise<Response> {
+    try {
+      const url = new URL(request.url);
+      const filters: AuditFilters = {
+        userId: url.searchParams.get('userId') ? parseInt(url.searchParams.get('userId')!) : undefined,
+        entityType: url.searchParams.get('entityType') as any || undefined,
+        entityId: url.searchParams.get('entityId') ? parseInt(url.searchParams.get('entityId')!) : undefined,
+        action: url.searchParams.get('action') as any || undefined,
+        from: url.searchParams.get('from') || undefined,
+        to: url.searchParams.get('to') || undefined
+      };
+
+      for (const bound of [filters.from, filters.to]) {
+        if (bound && isNaN(Date.parse(bound))) {
+          return ErrorHandler.badRequest('from and to must be ISO dates');
+        }
+      }
+
+      const page = parseInt(url.searchParams.get('page') || '1');
+      const limit = Math.min(parseInt(url.searchParams.get('limit') || '50'), 200);
+
+      const result = await ActivityModel.findMany(filters, page, limit);
+
+      return Response.json({
+        success: true,
+        data: result.entries,
+        pagination: result.pagination
+      });
+
+    } catch (error) {
+      return ErrorHandler.handle(error);
+    }
+  }
+}
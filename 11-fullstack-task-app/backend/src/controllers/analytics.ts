@@ -0,0 +1,96 @@
+import { ErrorHandler } from '../middleware/errors';
+import { ProjectModel } from '../models/project';
+import { TeamModel } from '../models/team';
+import { UserModel } from '../models/user';
+import { AnalyticsService } from '../services/analytics';
+import type { User } from '../../../shared/types';
+
+export class AnalyticsController {
+  static async getTaskAnalytics(_request: Request, _params: any, user: User): Promise<Response> {
+    try {
+      const analytics = await AnalyticsService.getTaskAnalytics(user);
+
+      return Response.json({
+        success: true,
+        data: analytics
+      });
+
+    } catch (error) {
+      return ErrorHandler.handle(error);
+    }
+  }
+
+  static async getProjectsAnalytics(_request: Request, _params: any, user: User): Promise<Response> {
+    try {
+      const analytics = await AnalyticsService.getProjectAnalytics(user);
+
+      return Response.json({
+        success: true,
+        data: analytics
+      });
+
+    } catch (error) {
+      return ErrorHandler.handle(error);
+    }
+  }
+
+  static async getProjectAnalytics(_request: Request, params: any, user: User): Promise<Response> {
+    try {
+      const projectId = parseInt(params.id);
+
+      const project = await ProjectModel.findAccessible(projectId, user);
+      if (!project) {
+        return ErrorHandler.notFound('Project');
+      }
+
+      const analytics = await AnalyticsService.getProjectTaskAnalytics(projectId);
+
+      return Response.json({
+        success: true,
+        data: analytics
+      });
+
+    } catch (error) {
+      return ErrorHandler.handle(error);
+    }
+  }
+
+  static async getUsersAnalytics(_request: Request, _params: any, _user: User): Promise<Response> {
+    try {
+      const analytics = await AnalyticsService.getUserAnalytics();
+
+      return Response.json({
+        success: true,
+        data: analytics
+      });
+
+    } catch (error) {
+      return ErrorHandler.handle(error);
+    }
+  }
+
+  static async getUserAnalytics(_request: Request, params: any, user: User): Promise<Response> {
+    try {
+      const userId = parseInt(params.id);
+
+      // Users the caller may not see get the same 404 as missing ones, checked
+      // before the lookup so ids cannot be probed
+      const visible = user.role === 'admin' || userId === user.id || (await TeamModel.sharesTeam(user.id, userId));
+      const target = visible ? await UserModel.findById(userId) : null;
+      if (!target) {
+        return ErrorHandler.notFound('User');
+      }
+
+      // Results are already limited to tasks the viewer can see
+      const analytics = await AnalyticsService.getUserTaskAnalytics(userId, user);
+
+      return Response.json({
+        success: true,
+        data: analytics
+      });
+
+    } catch (error) {
+      return ErrorHandler.handle(error);
+    }
+  }
+}
@@ -0,0 +1,128 @@
+import { ErrorHandler } from '../middleware/errors';
+import { AttachmentModel } from '../models/attachment';
+import { ProjectModel } from '../models/project';
+import { TaskModel } from '../models/task';
+import { FileStorage } from '../services/file-storage';
+import { Permissions } from '../services/permissions';
+import type { User } from '../../../shared/types';
+
+export class AttachmentController {
+  static async getAttachments(_request: Request, params: any, user: User): Promise<Response> {
+    try {
+      const taskId = parseInt(params.id);
+
+      const task = await TaskModel.findAccessible(taskId, user);
+      if (!task) {
+        return ErrorHandler.notFound('Task');
+      }
+
+      const attachments = await AttachmentModel.findByTask(taskId);
+
+      return Response.json({
+        success: true,
+        data: attachments
+      });
+
+    } catch (error) {
+      return ErrorHandler.handle(error);
+    }
+  }
+
+  static async uploadAttachment(request: Request, params: any, user: User): Promise<Response> {
+    try {
+      const taskId = parseInt(params.id);
+
+      const task = await TaskModel.findAccessible(taskId, user);
+      if (!task) {
+        return ErrorHandler.notFound('Task');
+      }
+
+      const project = await ProjectModel.findById(task.projectId);
+      if (!project) {
+        return ErrorHandler.notFound('Project');
+      }
+
+      const formData = await request.formData();
+      const file = formData.get('file');
+      if (!(file instanceof File)) {
+        return ErrorHandler.badRequest('A file must be provided in the "file" field');
+      }
+
+      const attachment = await AttachmentModel.create(taskId, project.teamId, user.id, file);
+
+      return Response.json({
+        success: true,
+        data: attachment
+      }, { status: 201 });
+
+    } catch (error) {
+      return ErrorHandler.handle(error);
+    }
+  }
+
+  static async downloadAttachment(_request: Request, params: any, user: User): Promise<Response> {
+    try {
+      const taskId = parseInt(params.id);
+      const attachmentId = parseInt(params.attachmentId);
+
+      const task = await TaskModel.findAccessible(taskId, user);
+      const attachment = await AttachmentModel.findById(attachmentId);
+      if (!task || !attachment || attachment.taskId !== taskId) {
+        return ErrorHandler.notFound('Attachment');
+      }
+
+      const file = Bun.file(FileStorage.resolve(attachment.filePath));
+      if (!(await file.exists())) {
+        return ErrorHandler.notFound('Attachment');
+      }
+
+      // Plain ASCII fallback for old clients, RFC 5987 encoding for the real name
+      const asciiName = attachment.originalName.replace(/[^\x20-\x7e]|["\\]/g, '_');
+      const encodedName = encodeURIComponent(attachment.originalName);
+
+      return new Response(file.stream(), {
+        headers: {
+          'Content-Type': attachment.mimeType,
+          'Content-Length': attachment.fileSize.toString(),
+          'Content-Disposition': `attachment; filename="${asciiName}"; filename*=UTF-8''${encodedName}`,
+          'X-Content-Type-Options': 'nosniff',
+          'Cache-Control': 'private, max-age=0'
+        }
+      });
+
+    } catch (error) {
+      return ErrorHandler.handle(error);
+    }
+  }
+
+  static async deleteAttachment(_request: Request, params: any, user: User): Promise<Response> {
+    try {
+      const taskId = parseInt(params.id);
+      const attachmentId = parseInt(params.attachmentId);
+
+      const task = await TaskModel.findAccessible(taskId, user);
+      const attachment = await AttachmentModel.findById(attachmentId);
+      if (!task || !attachment || attachment.taskId !== taskId) {
+        return ErrorHandler.notFound('Attachment');
+      }
+
+      // Uploaders can delete their own files; team managers can delete any
+      if (attachment.uploadedById !== user.id) {
+        const project = await ProjectModel.findById(task.projectId);
+        if (!project || !(await Permissions.isTeamManager(user, project.teamId))) {
+          return ErrorHandler.forbidden('Only the uploader or an admin can delete this attachment');
+        }
+      }
+
+      await AttachmentModel.delete(attachment);
+
+      return Response.json({
+        success: true,
+        message: 'Attachment deleted successfully'
+      });
+
+    } catch (error) {
+      return ErrorHandler.handle(error);
+    }
+  }
+}
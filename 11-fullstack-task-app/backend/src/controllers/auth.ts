@@ -0,0 +1,271 @@
+import { AuthMiddleware, TokenRevocation } from '../middleware/auth';
+import { ErrorHandler, HttpError } from '../middleware/errors';
+import { RefreshTokenModel } from '../models/refresh-token';
+import {
+  changePasswordSchema, forgotPasswordSchema, logoutSchema, refreshSchema, resetPasswordSchema, verifyEmailSchema
+} from '../models/schemas';
+import { UserModel } from '../models/user';
+import { UserTokenModel } from '../models/user-token';
+import { ACCOUNT_EMAIL_COOLDOWN, AccountEmailService } from '../services/account-email';
+import { isSafeDisplayName } from '../utils/mailer';
+import type {
+  ChangePasswordRequest, ForgotPasswordRequest, ResetPasswordRequest, User, VerifyEmailRequest
+} from '../../../shared/types';
+
+export class AuthController {
+  static async register(request: Request): Promise<Response> {
+    try {
+      const body = await request.json();
+      const { name, email, password, confirmPassword } = body;
+
+      if (!name || !email || !password || !confirmPassword) {
+        return ErrorHandler.handle(new Error('All fields are required'));
+      }
+
+      if (password !== confirmPassword) {
+        return ErrorHandler.handle(new Error('Passwords do not match'));
+      }
+
+      // The name ends up in email headers
+      if (typeof name !== 'string' || !isSafeDisplayName(name)) {
+        return ErrorHandler.badRequest('Name must not contain line breaks or angle brackets');
+      }
+
+      // Check if user already exists
+      const existingUser = await UserModel.findByEmail(email);
+      if (existingUser) {
+        return ErrorHandler.handle(new Error('User already exists'));
+      }
+
+      const user = await UserModel.create({ name, email, password });
+      const tokens = await AuthMiddleware.issueTokens(user);
+
+      // Registration succeeds even if the mail transport is down; the user can resend later
+      try {
+        await AccountEmailService.sendVerification(user);
+      } catch (error) {
+        console.error('Failed to send verification email:', error);
+      }
+
+      return Response.json({
+        success: true,
+        data: {
+          user,
+          ...tokens
+        }
+      }, { status: 201 });
+
+    } catch (error) {
+      return ErrorHandler.handle(error);
+    }
+  }
+
+  static async login(request: Request): Promise<Response> {
+    try {
+      const body = await request.json();
+      const { email, password } = body;
+
+      if (!email || !password) {
+        return ErrorHandler.handle(new Error('Email and password are required'));
+      }
+
+      // Find user and verify password
+      const user = await UserModel.findByEmail(email);
+      if (!user) {
+        return ErrorHandler.unauthorized('Invalid credentials');
+      }
+
+      if (!(await UserModel.verifyPassword(user.id, password))) {
+        return ErrorHandler.unauthorized('Invalid credentials');
+      }
+
+      const tokens = await AuthMiddleware.issueTokens(user);
+
+      return Response.json({
+        success: true,
+        data: {
+          user,
+          ...tokens
+        }
+      });
+
+    } catch (error) {
+      return ErrorHandler.handle(error);
+    }
+  }
+
+  static async refresh(request: Request): Promise<Response> {
+    try {
+      const { refreshToken } = refreshSchema.parse(await request.json());
+
+      const { user, familyId } = await RefreshTokenModel.consume(refreshToken);
+      const tokens = await AuthMiddleware.issueTokens(user, familyId);
+
+      return Response.json({
+        success: true,
+        data: {
+          user,
+          ...tokens
+        }
+      });
+
+    } catch (error) {
+      return ErrorHandler.handle(error);
+    }
+  }
+
+  // Works without a valid access token so that clients can always end their session
+  static async logout(request: Request): Promise<Response> {
+    try {
+      // The access token is revoked before the body is looked at, so a malformed
+      // body cannot leave it usable
+      const authHeader = request.headers.get('authorization');
+      if (authHeader?.startsWith('Bearer ')) {
+        const payload = AuthMiddleware.decodeToken(authHeader.substring(7));
+        if (payload?.jti) {
+          await TokenRevocation.revokeToken(payload.jti, payload.exp);
+        }
+        if (payload?.fam) {
+          await RefreshTokenModel.revokeFamily(payload.fam);
+        }
+      }
+
+      const body = (await request.json().catch(() => null)) ?? {};
+      const { refreshToken } = logoutSchema.parse(body);
+
+      if (refreshToken) {
+        const stored = await RefreshTokenModel.findByToken(refreshToken);
+        if (stored) {
+          await RefreshTokenModel.revokeFamily(stored.family_id);
+        }
+      }
+
+      return Response.json({
+        success: true,
+        message: 'Logged out successfully'
+      });
+
+    } catch (error) {
+      return ErrorHandler.handle(error);
+    }
+  }
+
+  static async me(request: Request, params: any, user: User): Promise<Response> {
+    return Response.json({
+      success: true,
+      data: user
+    });
+  }
+
+  // Always answers the same way so the endpoint cannot be used to probe for accounts
+  static async forgotPassword(request: Request): Promise<Response> {
+    try {
+      const { email }: ForgotPasswordRequest = forgotPasswordSchema.parse(await request.json());
+
+      // Not awaited: waiting on SMTP only when the account exists would make
+      // the response time reveal it
+      const user = await UserModel.findByEmail(email);
+      if (user && user.isActive) {
+        AccountEmailService.sendPasswordReset(user)
+          .catch(error => console.error('Failed to send password reset email:', error));
+      }
+
+      return Response.json({
+        success: true,
+        message: 'If an account exists for that email, a reset link has been sent'
+      });
+
+    } catch (error) {
+      return ErrorHandler.handle(error);
+    }
+  }
+
+  static async resetPassword(request: Request): Promise<Response> {
+    try {
+      const { token, password }: ResetPasswordRequest = resetPasswordSchema.parse(await request.json());
+
+      const userId = await UserTokenModel.consume(token, 'password_reset');
+      await UserModel.setPassword(userId, password);
+
+      // Receiving the link proves the address, and any existing session may be the attacker's
+      await UserModel.markEmailVerified(userId);
+      await RefreshTokenModel.revokeAllForUser(userId);
+
+      return Response.json({
+        success: true,
+        message: 'Password reset successful'
+      });
+
+    } catch (error) {
+      return ErrorHandler.handle(error);
+    }
+  }
+
+  // Signs out every other session and returns fresh tokens for this one
+  static async changePassword(request: Request, _params: any, user: User): Promise<Response> {
+    try {
+      const { currentPassword, newPassword }: ChangePasswordRequest =
+        changePasswordSchema.parse(await request.json());
+
+      if (!(await UserModel.verifyPassword(user.id, currentPassword))) {
+        throw new HttpError(400, 'INVALID_PASSWORD', 'Current password is incorrect');
+      }
+
+      await UserModel.setPassword(user.id, newPassword);
+      await RefreshTokenModel.revokeAllForUser(user.id);
+
+      const tokens = await AuthMiddleware.issueTokens(user);
+
+      return Response.json({
+        success: true,
+        data: {
+          user,
+          ...tokens
+        },
+        message: 'Password changed successfully'
+      });
+
+    } catch (error) {
+      return ErrorHandler.handle(error);
+    }
+  }
+
+  static async verifyEmail(request: Request): Promise<Response> {
+    try {
+      const { token }: VerifyEmailRequest = verifyEmailSchema.parse(await request.json());
+
+      const userId = await UserTokenModel.consume(token, 'email_verification');
+      await UserModel.markEmailVerified(userId);
+
+      return Response.json({
+        success: true,
+        data: await UserModel.findById(userId),
+        message: 'Email address verified'
+      });
+
+    } catch (error) {
+      return ErrorHandler.handle(error);
+    }
+  }
+
+  static async resendVerification(_request: Request, _params: any, user: User): Promise<Response> {
+    try {
+      if (user.emailVerifiedAt) {
+        throw new HttpError(409, 'ALREADY_VERIFIED', 'Email address is already verified');
+      }
+
+      if (!(await AccountEmailService.sendVerification(user))) {
+        throw new HttpError(429, 'TOO_MANY_REQUESTS', 'A verification email was sent recently, please wait a minute',
+          undefined, { 'Retry-After': String(ACCOUNT_EMAIL_COOLDOWN) });
+      }
+
+      return Response.json({
+        success: true,
+        message: 'Verification email sent'
+      });
+
+    } catch (error) {
+      return ErrorHandler.handle(error);
+    }
+  }
+}
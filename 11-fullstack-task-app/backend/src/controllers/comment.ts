@@ -0,0 +1,131 @@
+import { randomBytes } from 'crypto';
+import { ErrorHandler } from '../middleware/errors';
+import { CommentModel } from '../models/comment';
+import { ProjectModel } from '../models/project';
+import { TaskModel } from '../models/task';
+import { eventManager } from '../services/event-manager';
+import { NotificationService } from '../services/notification';
+import { Permissions } from '../services/permissions';
+import type { CommentEvent, User } from '../../../shared/types';
+
+export class CommentController {
+  static async getComments(request: Request, params: any, user: User): Promise<Response> {
+    try {
+      const taskId = parseInt(params.id);
+      const url = new URL(request.url);
+
+      const task = await TaskModel.findAccessible(taskId, user);
+      if (!task) {
+        return ErrorHandler.notFound('Task');
+      }
+
+      const page = parseInt(url.searchParams.get('page') || '1');
+      const limit = Math.min(parseInt(url.searchParams.get('limit') || '20'), 100);
+
+      const result = await CommentModel.findByTask(taskId, page, limit);
+
+      return Response.json({
+        success: true,
+        data: result.comments,
+        pagination: result.pagination
+      });
+
+    } catch (error) {
+      return ErrorHandler.handle(error);
+    }
+  }
+
+  static async createComment(request: Request, params: any, user: User): Promise<Response> {
+    try {
+      const taskId = parseInt(params.id);
+      const body = await request.json() as { content: string };
+
+      const task = await TaskModel.findAccessible(taskId, user);
+      if (!task) {
+        return ErrorHandler.notFound('Task');
+      }
+
+      const comment = await CommentModel.create(taskId, user.id, body);
+
+      // Broadcast real-time event to the task's project members
+      const event: CommentEvent = {
+        id: randomBytes(16).toString('hex'),
+        type: 'comment_added',
+        data: comment,
+        userId: user.id,
+        taskId,
+        timestamp: new Date().toISOString()
+      };
+      await eventManager.broadcastToProject(event, task.projectId);
+
+      await NotificationService.commentAdded(task, comment, user);
+
+      return Response.json({
+        success: true,
+        data: comment
+      }, { status: 201 });
+
+    } catch (error) {
+      return ErrorHandler.handle(error);
+    }
+  }
+
+  static async updateComment(request: Request, params: any, user: User): Promise<Response> {
+    try {
+      const taskId = parseInt(params.id);
+      const commentId = parseInt(params.commentId);
+      const body = await request.json() as { content: string };
+
+      const task = await TaskModel.findAccessible(taskId, user);
+      const comment = await CommentModel.findById(commentId);
+      if (!task || !comment || comment.taskId !== taskId) {
+        return ErrorHandler.notFound('Comment');
+      }
+
+      if (comment.userId !== user.id) {
+        return ErrorHandler.forbidden('Only the author can edit this comment');
+      }
+
+      const updatedComment = await CommentModel.update(commentId, body);
+
+      return Response.json({
+        success: true,
+        data: updatedComment
+      });
+
+    } catch (error) {
+      return ErrorHandler.handle(error);
+    }
+  }
+
+  static async deleteComment(_request: Request, params: any, user: User): Promise<Response> {
+    try {
+      const taskId = parseInt(params.id);
+      const commentId = parseInt(params.commentId);
+
+      const task = await TaskModel.findAccessible(taskId, user);
+      const comment = await CommentModel.findById(commentId);
+      if (!task || !comment || comment.taskId !== taskId) {
+        return ErrorHandler.notFound('Comment');
+      }
+
+      // Authors can delete their own comments; team managers can moderate
+      if (comment.userId !== user.id) {
+        const project = await ProjectModel.findById(task.projectId);
+        if (!project || !(await Permissions.isTeamManager(user, project.teamId))) {
+          return ErrorHandler.forbidden('Only the author or a team manager can delete this comment');
+        }
+      }
+
+      await CommentModel.delete(commentId);
+
+      return Response.json({
+        success: true,
+        message: 'Comment deleted successfully'
+      });
+
+    } catch (error) {
+      return ErrorHandler.handle(error);
+    }
+  }
+}
@@ -0,0 +1,80 @@
+import { randomBytes } from 'crypto';
+import { config } from '../config';
+import { connection } from '../database';
+import { ErrorHandler } from '../middleware/errors';
+import { ProjectModel } from '../models/project';
+import { eventManager, type RealtimeConnection } from '../services/event-manager';
+import { presenceTracker } from '../services/presence';
+import { SseStream } from '../utils/sse';
+import type { User } from '../../../shared/types';
+
+// Server-Sent Events handler
+export async function handleEvents(request: Request, _params: any, user: User): Promise<Response> {
+  const headers = new Headers({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    'Connection': 'keep-alive',
+    'Access-Control-Allow-Origin': config.corsOrigin,
+    'Access-Control-Allow-Credentials': 'true'
+  });
+
+  // ?projectId= narrows the stream to one project the user can see
+  const url = new URL(request.url);
+  const projectId = url.searchParams.get('projectId');
+  if (projectId && !(await ProjectModel.findAccessible(parseInt(projectId), user))) {
+    return ErrorHandler.notFound('Project');
+  }
+
+  // Browsers send Last-Event-ID when they reconnect on their own; clients that
+  // open a fresh EventSource pass it as a query parameter instead
+  const lastEventId = request.headers.get('Last-Event-ID') || url.searchParams.get('lastEventId');
+
+  // The client may leave while the connection is being set up, so the stream
+  // follows the request signal before anything is awaited
+  const stream = new SseStream(headers);
+  request.signal.addEventListener('abort', () => stream.close());
+  if (request.signal.aborted) stream.close();
+
+  let connection: RealtimeConnection | null = null;
+  const disconnect = () => {
+    if (!connection) return;
+
+    eventManager.removeClient(connection);
+    presenceTracker.disconnected(connection.id).catch(error => console.error('Presence error:', error));
+  };
+
+  try {
+    // Add client to event manager
+    connection = await eventManager.addClient(
+      user,
+      stream,
+      projectId ? parseInt(projectId) : undefined,
+      !!lastEventId
+    );
+
+    // Send initial connection event
+    const welcomeEvent = {
+      id: randomBytes(16).toString('hex'),
+      type: 'connection',
+      data: { userId: user.id, message: 'Connected to real-time updates', resumed: !!lastEventId },
+      timestamp: new Date().toISOString()
+    };
+
+    stream.write(`data: ${JSON.stringify(welcomeEvent)}\n\n`);
+
+    if (lastEventId) {
+      await eventManager.replay(connection, lastEventId);
+    }
+
+    await presenceTracker.connected(connection.id, user, connection.projectId);
+  } catch (error) {
+    disconnect();
+    stream.close();
+    return ErrorHandler.handle(error);
+  }
+
+  // Registered once setup is complete; runs right away if the client already left
+  stream.onClose(disconnect);
+
+  return stream.response;
+}
@@ -0,0 +1,73 @@
+import { ErrorHandler } from '../middleware/errors';
+import { NotificationModel } from '../models/notification';
+import type { User } from '../../../shared/types';
+
+export class NotificationController {
+  static async getNotifications(request: Request, _params: any, user: User): Promise<Response> {
+    try {
+      const url = new URL(request.url);
+      const unreadOnly = url.searchParams.get('unread') === 'true';
+      const page = parseInt(url.searchParams.get('page') || '1');
+      const limit = Math.min(parseInt(url.searchParams.get('limit') || '20'), 100);
+
+      const result = await NotificationModel.findByUser(user.id, unreadOnly, page, limit);
+
+      return Response.json({
+        success: true,
+        data: result.notifications,
+        pagination: result.pagination
+      });
+
+    } catch (error) {
+      return ErrorHandler.handle(error);
+    }
+  }
+
+  static async getUnreadCount(_request: Request, _params: any, user: User): Promise<Response> {
+    try {
+      const count = await NotificationModel.countUnread(user.id);
+
+      return Response.json({
+        success: true,
+        data: { count }
+      });
+
+    } catch (error) {
+      return ErrorHandler.handle(error);
+    }
+  }
+
+  static async markRead(_request: Request, params: any, user: User): Promise<Response> {
+    try {
+      const notificationId = parseInt(params.id);
+      const notification = await NotificationModel.markRead(notificationId, user.id);
+
+      if (!notification) {
+        return ErrorHandler.notFound('Notification');
+      }
+
+      return Response.json({
+        success: true,
+        data: notification
+      });
+
+    } catch (error) {
+      return ErrorHandler.handle(error);
+    }
+  }
+
+  static async markAllRead(_request: Request, _params: any, user: User): Promise<Response> {
+    try {
+      const updated = await NotificationModel.markAllRead(user.id);
+
+      return Response.json({
+        success: true,
+        data: { updated },
+        message: 'All notifications marked as read'
+      });
+
+    } catch (error) {
+      return ErrorHandler.handle(error);
+    }
+  }
+}
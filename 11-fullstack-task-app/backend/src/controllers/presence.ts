@@ -0,0 +1,31 @@
+import { ErrorHandler } from '../middleware/errors';
+import { ProjectModel } from '../models/project';
+import { presenceTracker } from '../services/presence';
+import type { User } from '../../../shared/types';
+
+export class PresenceController {
+  static async getPresence(request: Request, _params: any, user: User): Promise<Response> {
+    try {
+      const url = new URL(request.url);
+      const projectId = parseInt(url.searchParams.get('projectId') || '');
+
+      if (!projectId) {
+        return ErrorHandler.badRequest('projectId is required');
+      }
+
+      if (!(await ProjectModel.findAccessible(projectId, user))) {
+        return ErrorHandler.notFound('Project');
+      }
+
+      const viewers = await presenceTracker.viewers(projectId);
+
+      return Response.json({
+        success: true,
+        data: viewers
+      });
+
+    } catch (error) {
+      return ErrorHandler.handle(error);
+    }
+  }
+}
@@ -0,0 +1,184 @@
+import { randomBytes } from 'crypto';
+import { ErrorHandler } from '../middleware/errors';
+import { ProjectModel } from '../models/project';
+import { eventManager } from '../services/event-manager';
+import { ExportService } from '../services/import-export';
+import { Permissions } from '../services/permissions';
+import type {
+  CreateProjectRequest, Project, ProjectEvent, ProjectFilters, UpdateProjectRequest, User
+} from '../../../shared/types';
+
+export class ProjectController {
+  private static parseFilters(url: URL): ProjectFilters {
+    return {
+      teamId: url.searchParams.get('teamId') ? parseInt(url.searchParams.get('teamId')!) : undefined,
+      status: url.searchParams.get('status') as any,
+      search: url.searchParams.get('search') || undefined,
+      sortBy: url.searchParams.get('sortBy') as any,
+      sortOrder: url.searchParams.get('sortOrder') as any
+    };
+  }
+
+  static async getProjects(request: Request, _params: any, user: User): Promise<Response> {
+    try {
+      const url = new URL(request.url);
+      const filters = ProjectController.parseFilters(url);
+
+      const page = parseInt(url.searchParams.get('page') || '1');
+      const limit = Math.min(parseInt(url.searchParams.get('limit') || '20'), 100);
+
+      const result = await ProjectModel.findMany(filters, user, page, limit);
+
+      return Response.json({
+        success: true,
+        data: result.projects,
+        pagination: result.pagination
+      });
+
+    } catch (error) {
+      return ErrorHandler.handle(error);
+    }
+  }
+
+  static async exportProjects(request: Request, _params: any, user: User): Promise<Response> {
+    try {
+      const url = new URL(request.url);
+      const format = ExportService.parseFormat(url.searchParams.get('format'));
+      const filters = ProjectController.parseFilters(url);
+
+      return await ExportService.stream<Project>(format, 'projects', [
+        ['id', project => project.id],
+        ['name', project => project.name],
+        ['description', project => project.description],
+        ['teamId', project => project.teamId],
+        ['status', project => project.status],
+        ['startDate', project => project.startDate],
+        ['dueDate', project => project.dueDate],
+        ['createdAt', project => project.createdAt],
+        ['updatedAt', project => project.updatedAt]
+      ], ProjectModel.iterate(filters, user));
+
+    } catch (error) {
+      return ErrorHandler.handle(error);
+    }
+  }
+
+  static async getProject(_request: Request, params: any, user: User): Promise<Response> {
+    try {
+      const projectId = parseInt(params.id);
+      const project = await ProjectModel.findAccessible(projectId, user);
+
+      if (!project) {
+        return ErrorHandler.notFound('Project');
+      }
+
+      return Response.json({
+        success: true,
+        data: project
+      });
+
+    } catch (error) {
+      return ErrorHandler.handle(error);
+    }
+  }
+
+  static async createProject(request: Request, _params: any, user: User): Promise<Response> {
+    try {
+      const body = await request.json() as CreateProjectRequest;
+      const project = await ProjectModel.create(body, user);
+
+      const event: ProjectEvent = {
+        id: randomBytes(16).toString('hex'),
+        type: 'project_created',
+        data: project,
+        userId: user.id,
+        timestamp: new Date().toISOString()
+      };
+      await eventManager.broadcast(event, { teamId: project.teamId });
+
+      return Response.json({
+        success: true,
+        data: project
+      }, { status: 201 });
+
+    } catch (error) {
+      return ErrorHandler.handle(error);
+    }
+  }
+
+  static async updateProject(request: Request, params: any, user: User): Promise<Response> {
+    try {
+      const projectId = parseInt(params.id);
+      const body = await request.json() as UpdateProjectRequest;
+
+      const existingProject = await ProjectModel.findAccessible(projectId, user);
+      if (!existingProject) {
+        return ErrorHandler.notFound('Project');
+      }
+
+      await Permissions.assert(
+        Permissions.canManageProjects(user, existingProject.teamId),
+        'Only team managers can update projects'
+      );
+
+      const updatedProject = await ProjectModel.update(projectId, body);
+
+      if (updatedProject) {
+        const event: ProjectEvent = {
+          id: randomBytes(16).toString('hex'),
+          type: 'project_updated',
+          data: updatedProject,
+          userId: user.id,
+          timestamp: new Date().toISOString()
+        };
+        await eventManager.broadcast(event, { teamId: updatedProject.teamId });
+      }
+
+      return Response.json({
+        success: true,
+        data: updatedProject
+      });
+
+    } catch (error) {
+      return ErrorHandler.handle(error);
+    }
+  }
+
+  static async archiveProject(_request: Request, params: any, user: User): Promise<Response> {
+    try {
+      const projectId = parseInt(params.id);
+
+      const existingProject = await ProjectModel.findAccessible(projectId, user);
+      if (!existingProject) {
+        return ErrorHandler.notFound('Project');
+      }
+
+      await Permissions.assert(
+        Permissions.canManageProjects(user, existingProject.teamId),
+        'Only team managers can archive projects'
+      );
+
+      const archivedProject = await ProjectModel.archive(projectId);
+
+      if (archivedProject) {
+        const event: ProjectEvent = {
+          id: randomBytes(16).toString('hex'),
+          type: 'project_archived',
+          data: archivedProject,
+          userId: user.id,
+          timestamp: new Date().toISOString()
+        };
+        await eventManager.broadcast(event, { teamId: archivedProject.teamId });
+      }
+
+      return Response.json({
+        success: true,
+        data: archivedProject,
+        message: 'Project archived successfully'
+      });
+
+    } catch (error) {
+      return ErrorHandler.handle(error);
+    }
+  }
+}
@@ -0,0 +1,152 @@
+import { withTransaction } from '../database';
+import { ErrorHandler, HttpError } from '../middleware/errors';
+import { recurrenceSchema, seriesUpdateSchema } from '../models/schemas';
+import { TaskModel } from '../models/task';
+import { TaskSeriesModel } from '../models/task-series';
+import { ActivityService } from '../services/activity';
+import { BulkTaskService } from '../services/bulk-task';
+import { NotificationService } from '../services/notification';
+import { Permissions } from '../services/permissions';
+import type { Task, User } from '../../../shared/types';
+
+export class RecurrenceController {
+  private static async findSeries(params: any, user: User) {
+    const task = await TaskModel.findAccessible(parseInt(params.id), user);
+    if (!task) {
+      throw new HttpError(404, 'NOT_FOUND', 'Task not found');
+    }
+
+    const series = task.seriesId ? await TaskSeriesModel.findById(task.seriesId) : null;
+    if (!series) {
+      throw new HttpError(404, 'NOT_FOUND', 'Task is not recurring');
+    }
+
+    return { task, series };
+  }
+
+  static async getRecurrence(_request: Request, params: any, user: User): Promise<Response> {
+    try {
+      const { series } = await RecurrenceController.findSeries(params, user);
+      series.occurrences = await TaskModel.findBySeries(series.id);
+
+      return Response.json({
+        success: true,
+        data: series
+      });
+
+    } catch (error) {
+      return ErrorHandler.handle(error);
+    }
+  }
+
+  // Makes the task recurring, or replaces the schedule of its series
+  static async setRecurrence(request: Request, params: any, user: User): Promise<Response> {
+    try {
+      const taskId = parseInt(params.id);
+      const rule = recurrenceSchema.parse(await request.json());
+
+      const task = await TaskModel.findAccessible(taskId, user);
+      if (!task) {
+        return ErrorHandler.notFound('Task');
+      }
+
+      const existing = task.seriesId ? await TaskSeriesModel.findById(task.seriesId) : null;
+
+      if (existing) {
+        await Permissions.assert(
+          Permissions.canManageSeries(user, existing),
+          'Only the series creator or a team manager can change its schedule'
+        );
+
+        const occurrences = await TaskModel.findBySeries(existing.id);
+        const latestDueAt = occurrences[occurrences.length - 1]?.dueDate ?? existing.anchorAt;
+        const series = await TaskSeriesModel.updateRule(existing, rule, latestDueAt);
+
+        return Response.json({
+          success: true,
+          data: series
+        });
+      }
+
+      await Permissions.assert(
+        Permissions.canEditTask(user, task),
+        'You can only edit tasks you created or are assigned to'
+      );
+
+      const series = await withTransaction(() => TaskSeriesModel.create(task, rule, user));
+
+      return Response.json({
+        success: true,
+        data: series
+      }, { status: 201 });
+
+    } catch (error) {
+      return ErrorHandler.handle(error);
+    }
+  }
+
+  // Edits every open occurrence; later occurrences are copied from the latest one
+  static async updateSeries(request: Request, params: any, user: User): Promise<Response> {
+    try {
+      const changes = seriesUpdateSchema.parse(await request.json());
+      const { series } = await RecurrenceController.findSeries(params, user);
+
+      await Permissions.assert(
+        Permissions.canManageSeries(user, series),
+        'Only the series creator or a team manager can edit the whole series'
+      );
+
+      const open = (await TaskModel.findBySeries(series.id)).filter(task => task.status !== 'completed');
+
+      const updated = await withTransaction(async () => {
+        const results: Array<{ before: Task; after: Task }> = [];
+
+        for (const before of open) {
+          const after = await TaskModel.update(before.id, changes);
+          if (after) results.push({ before, after });
+        }
+
+        return results;
+      });
+
+      for (const { before, after } of updated) {
+        await ActivityService.recordTask('updated', before, after, user);
+
+        if (after.assignedTo && after.assignedTo !== before.assignedTo) {
+          await NotificationService.taskAssigned(after, user);
+        }
+      }
+
+      await BulkTaskService.broadcast(user, { updated });
+
+      return Response.json({
+        success: true,
+        data: updated.map(({ after }) => after)
+      });
+
+    } catch (error) {
+      return ErrorHandler.handle(error);
+    }
+  }
+
+  static async stopRecurrence(_request: Request, params: any, user: User): Promise<Response> {
+    try {
+      const { series } = await RecurrenceController.findSeries(params, user);
+
+      await Permissions.assert(
+        Permissions.canManageSeries(user, series),
+        'Only the series creator or a team manager can stop the series'
+      );
+
+      await TaskSeriesModel.stop(series.id);
+
+      return Response.json({
+        success: true,
+        message: 'Recurrence stopped'
+      });
+
+    } catch (error) {
+      return ErrorHandler.handle(error);
+    }
+  }
+}
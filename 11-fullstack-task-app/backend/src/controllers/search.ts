@@ -0,0 +1,32 @@
+import { ErrorHandler } from '../middleware/errors';
+import { SEARCH_TYPES, SearchModel } from '../models/search';
+import type { User } from '../../../shared/types';
+
+export class SearchController {
+  static async search(request: Request, _params: any, user: User): Promise<Response> {
+    try {
+      const url = new URL(request.url);
+      const query = (url.searchParams.get('q') || '').trim();
+
+      if (query.length < 2) {
+        return ErrorHandler.badRequest('Search query must be at least 2 characters');
+      }
+
+      const requestedTypes = url.searchParams.get('types')?.split(',').map(type => type.trim());
+      const types = requestedTypes
+        ? SEARCH_TYPES.filter(type => requestedTypes.includes(type))
+        : SEARCH_TYPES;
+      const limit = Math.min(parseInt(url.searchParams.get('limit') || '10'), 50);
+
+      const results = await SearchModel.search(query, user, types, limit);
+
+      return Response.json({
+        success: true,
+        data: results
+      });
+
+    } catch (error) {
+      return ErrorHandler.handle(error);
+    }
+  }
+}
@@ -0,0 +1,466 @@
+import { randomBytes } from 'crypto';
+import { withTransaction } from '../database';
+import { ErrorHandler, HttpError } from '../middleware/errors';
+import { AttachmentModel } from '../models/attachment';
+import { createTaskSchema, dependencySchema, updateTaskSchema } from '../models/schemas';
+import { TaskModel } from '../models/task';
+import { TaskSeriesModel } from '../models/task-series';
+import { UserModel } from '../models/user';
+import { ActivityService } from '../services/activity';
+import { BulkTaskService } from '../services/bulk-task';
+import { eventManager } from '../services/event-manager';
+import { ExportService, TaskImportService } from '../services/import-export';
+import { NotificationService } from '../services/notification';
+import { Permissions } from '../services/permissions';
+import { RecurrenceService } from '../services/recurrence';
+import { TaskETag } from '../utils/task-etag';
+import type {
+  BulkTaskRequest, MoveTaskRequest, Task, TaskFilters, TaskImportRequest, TaskMovedEvent, User
+} from '../../../shared/types';
+
+export class TaskController {
+  private static parseFilters(url: URL): TaskFilters {
+    const filters: TaskFilters = {
+      projectId: url.searchParams.get('projectId') ? parseInt(url.searchParams.get('projectId')!) : undefined,
+      assignedTo: url.searchParams.get('assignedTo') ? parseInt(url.searchParams.get('assignedTo')!) : undefined,
+      status: url.searchParams.get('status') as any,
+      priority: url.searchParams.get('priority') as any,
+      tags: url.searchParams.getAll('tags')
+        .flatMap(value => value.split(','))
+        .map(tag => tag.trim())
+        .filter(Boolean),
+      tagMatch: url.searchParams.get('tagMatch') === 'all' ? 'all' : 'any',
+      dueDateRange: url.searchParams.has('dueDateStart') || url.searchParams.has('dueDateEnd') ? {
+        start: url.searchParams.get('dueDateStart') || undefined,
+        end: url.searchParams.get('dueDateEnd') || undefined
+      } : undefined,
+      search: url.searchParams.get('search') || undefined,
+      sortBy: url.searchParams.get('sortBy') as any,
+      sortOrder: url.searchParams.get('sortOrder') as any,
+      cursor: url.searchParams.get('cursor') || undefined
+    };
+
+    for (const bound of [filters.dueDateRange?.start, filters.dueDateRange?.end]) {
+      if (bound && isNaN(Date.parse(bound))) {
+        throw new HttpError(400, 'BAD_REQUEST', 'dueDateStart and dueDateEnd must be ISO dates');
+      }
+    }
+
+    return filters;
+  }
+
+  static async getTasks(request: Request, _params: any, user: User): Promise<Response> {
+    try {
+      const url = new URL(request.url);
+      const filters = TaskController.parseFilters(url);
+
+      const page = parseInt(url.searchParams.get('page') || '1');
+      const limit = Math.min(parseInt(url.searchParams.get('limit') || '20'), 100);
+
+      const result = await TaskModel.findMany(filters, user, page, limit);
+
+      return Response.json({
+        success: true,
+        data: result.tasks,
+        pagination: result.pagination
+      });
+
+    } catch (error) {
+      return ErrorHandler.handle(error);
+    }
+  }
+
+  // ?format=csv|ndjson|json, filtered like GET /api/tasks but without paging
+  static async exportTasks(request: Request, _params: any, user: User): Promise<Response> {
+    try {
+      const url = new URL(request.url);
+      const format = ExportService.parseFormat(url.searchParams.get('format'));
+      const filters = TaskController.parseFilters(url);
+
+      // Assignees are exported by email, which is also what the importer expects
+      const emails = new Map<number, string | undefined>();
+      async function* withAssigneeEmails() {
+        for await (const tasks of TaskModel.iterate(filters, user)) {
+          for (const task of tasks) {
+            if (task.assignedTo && !emails.has(task.assignedTo)) {
+              emails.set(task.assignedTo, (await UserModel.findById(task.assignedTo))?.email);
+            }
+          }
+          yield tasks;
+        }
+      }
+
+      return await ExportService.stream<Task>(format, 'tasks', [
+        ['id', task => task.id],
+        ['title', task => task.title],
+        ['description', task => task.description],
+        ['status', task => task.status],
+        ['priority', task => task.priority],
+        ['projectId', task => task.projectId],
+        ['assigneeEmail', task => task.assignedTo ? emails.get(task.assignedTo) : undefined],
+        ['tags', task => task.tags.join(', ')],
+        ['dueDate', task => task.dueDate],
+        ['estimatedHours', task => task.estimatedHours],
+        ['actualHours', task => task.actualHours],
+        ['createdAt', task => task.createdAt],
+        ['updatedAt', task => task.updatedAt],
+        ['completedAt', task => task.completedAt]
+      ], withAssigneeEmails());
+
+    } catch (error) {
+      return ErrorHandler.handle(error);
+    }
+  }
+
+  // Dry run by default; send dryRun: false to commit a file that validated cleanly
+  static async importTasks(request: Request, _params: any, user: User): Promise<Response> {
+    try {
+      const body = await request.json() as TaskImportRequest;
+      const report = await TaskImportService.run(body, user);
+
+      return Response.json({
+        success: true,
+        data: report
+      }, { status: report.committed ? 201 : 200 });
+
+    } catch (error) {
+      return ErrorHandler.handle(error);
+    }
+  }
+
+  static async getTask(_request: Request, params: any, user: User): Promise<Response> {
+    try {
+      const taskId = parseInt(params.id);
+      const accessibleTask = await TaskModel.findAccessible(taskId, user);
+
+      if (!accessibleTask) {
+        return ErrorHandler.notFound('Task');
+      }
+
+      // The ETag must describe the representation sent, which is read separately
+      const task = await TaskModel.findById(taskId, { includeDependencies: true });
+      if (!task) {
+        return ErrorHandler.notFound('Task');
+      }
+
+      return Response.json({
+        success: true,
+        data: task
+      }, { headers: { ETag: TaskETag.of(task) } });
+
+    } catch (error) {
+      return ErrorHandler.handle(error);
+    }
+  }
+
+  static async createTask(request: Request, _params: any, user: User): Promise<Response> {
+    try {
+      // Rejects non-object bodies (including null) with a 400 before anything is read
+      const { recurrence, ...taskData } = createTaskSchema.parse(await request.json());
+
+      const task = await withTransaction(async () => {
+        const created = await TaskModel.create(taskData, user);
+        if (!recurrence) return created;
+
+        await TaskSeriesModel.create(created, recurrence, user);
+        return (await TaskModel.findById(created.id))!;
+      });
+
+      await ActivityService.recordTask('created', null, task, user);
+
+      if (task.assignedTo) {
+        await NotificationService.taskAssigned(task, user);
+      }
+
+      // Broadcast real-time event
+      await eventManager.broadcastToProject({
+        id: randomBytes(16).toString('hex'),
+        type: 'task_created',
+        data: task,
+        userId: user.id,
+        timestamp: new Date().toISOString()
+      }, task.projectId);
+
+      return Response.json({
+        success: true,
+        data: task
+      }, { status: 201, headers: { ETag: TaskETag.of(task) } });
+
+    } catch (error) {
+      return ErrorHandler.handle(error);
+    }
+  }
+
+  static async updateTask(request: Request, params: any, user: User): Promise<Response> {
+    try {
+      const taskId = parseInt(params.id);
+      // Rejects non-object bodies (including null) with a 400 before anything is read
+      const body = updateTaskSchema.parse(await request.json());
+
+      const existingTask = await TaskModel.findAccessible(taskId, user);
+      if (!existingTask) {
+        return ErrorHandler.notFound('Task');
+      }
+
+      await Permissions.assert(
+        Permissions.canEditTask(user, existingTask),
+        'You can only edit tasks you created or are assigned to'
+      );
+
+      if (body.projectId !== undefined && body.projectId !== existingTask.projectId) {
+        await TaskModel.assertProjectAccess(body.projectId, user);
+      }
+
+      const expectedVersion = TaskETag.expectedVersion(request, taskId);
+      if (expectedVersion === null) {
+        await TaskModel.assertVersion(taskId, null);
+      }
+
+      const updatedTask = await TaskModel.update(taskId, body, expectedVersion ?? undefined);
+
+      // Deleted by someone else since it was loaded
+      if (!updatedTask) {
+        return ErrorHandler.notFound('Task');
+      }
+
+      await ActivityService.recordTask('updated', existingTask, updatedTask, user);
+
+      if (updatedTask.assignedTo && updatedTask.assignedTo !== existingTask.assignedTo) {
+        await NotificationService.taskAssigned(updatedTask, user);
+      }
+
+      if (updatedTask.status === 'completed' && existingTask.status !== 'completed') {
+        await NotificationService.taskCompleted(updatedTask, user);
+        await RecurrenceService.taskCompleted(updatedTask);
+      }
+
+      // Broadcast real-time event
+      await eventManager.broadcastToProject({
+        id: randomBytes(16).toString('hex'),
+        type: 'task_updated',
+        data: updatedTask,
+        userId: user.id,
+        timestamp: new Date().toISOString()
+      }, updatedTask.projectId);
+
+      return Response.json({
+        success: true,
+        data: updatedTask
+      }, { headers: { ETag: TaskETag.of(updatedTask) } });
+
+    } catch (error) {
+      return ErrorHandler.handle(error);
+    }
+  }
+
+  static async deleteTask(request: Request, params: any, user: User): Promise<Response> {
+    try {
+      const taskId = parseInt(params.id);
+
+      const existingTask = await TaskModel.findAccessible(taskId, user);
+      if (!existingTask) {
+        return ErrorHandler.notFound('Task');
+      }
+
+      await Permissions.assert(
+        Permissions.canDeleteTask(user, existingTask),
+        'You can only delete tasks you created'
+      );
+
+      const expectedVersion = TaskETag.expectedVersion(request, taskId);
+      if (expectedVersion === null) {
+        await TaskModel.assertVersion(taskId, null);
+      }
+
+      const filePaths = await AttachmentModel.findFilePathsByTask(taskId);
+      const deleted = await TaskModel.delete(taskId, expectedVersion ?? undefined);
+
+      if (deleted) {
+        await AttachmentModel.removeUnreferenced(filePaths);
+        await ActivityService.recordTask('deleted', existingTask, null, user);
+
+        // Broadcast real-time event
+        await eventManager.broadcastToProject({
+          id: randomBytes(16).toString('hex'),
+          type: 'task_deleted',
+          data: { id: taskId },
+          userId: user.id,
+          timestamp: new Date().toISOString()
+        }, existingTask.projectId);
+      }
+
+      return Response.json({
+        success: true,
+        message: 'Task deleted successfully'
+      });
+
+    } catch (error) {
+      return ErrorHandler.handle(error);
+    }
+  }
+
+  static async bulkUpdate(request: Request, _params: any, user: User): Promise<Response> {
+    try {
+      const body = await request.json() as BulkTaskRequest;
+      const results = await BulkTaskService.run(body, user);
+      const succeeded = results.filter(result => result.success).length;
+
+      return Response.json({
+        success: true,
+        data: {
+          results,
+          succeeded,
+          failed: results.length - succeeded
+        }
+      });
+
+    } catch (error) {
+      return ErrorHandler.handle(error);
+    }
+  }
+
+  static async moveTask(request: Request, params: any, user: User): Promise<Response> {
+    try {
+      const taskId = parseInt(params.id);
+      const body = await request.json() as MoveTaskRequest;
+
+      const existingTask = await TaskModel.findAccessible(taskId, user);
+      if (!existingTask) {
+        return ErrorHandler.notFound('Task');
+      }
+
+      await Permissions.assert(
+        Permissions.canEditTask(user, existingTask),
+        'You can only move tasks you created or are assigned to'
+      );
+
+      const expectedVersion = TaskETag.expectedVersion(request, taskId);
+      if (expectedVersion === null) {
+        await TaskModel.assertVersion(taskId, null);
+      }
+
+      const { task: movedTask, rebalanced } = await TaskModel.move(existingTask, body, expectedVersion ?? undefined);
+
+      await ActivityService.recordTask('updated', existingTask, movedTask, user);
+
+      if (movedTask.status === 'completed' && existingTask.status !== 'completed') {
+        await NotificationService.taskCompleted(movedTask, user);
+        await RecurrenceService.taskCompleted(movedTask);
+      }
+
+      const event: TaskMovedEvent = {
+        id: randomBytes(16).toString('hex'),
+        type: 'task_moved',
+        data: {
+          task: movedTask,
+          previousStatus: existingTask.status,
+          ...(rebalanced && { rebalanced })
+        },
+        userId: user.id,
+        timestamp: new Date().toISOString()
+      };
+      await eventManager.broadcastToProject(event, movedTask.projectId);
+
+      return Response.json({
+        success: true,
+        data: movedTask
+      }, { headers: { ETag: TaskETag.of(movedTask) } });
+
+    } catch (error) {
+      return ErrorHandler.handle(error);
+    }
+  }
+
+  static async getDependencies(_request: Request, params: any, user: User): Promise<Response> {
+    try {
+      const taskId = parseInt(params.id);
+
+      const task = await TaskModel.findAccessible(taskId, user);
+      if (!task) {
+        return ErrorHandler.notFound('Task');
+      }
+
+      const dependencies = await TaskModel.getDependencies(taskId);
+      const dependents = await TaskModel.getDependents(taskId);
+
+      return Response.json({
+        success: true,
+        data: {
+          dependencies,
+          dependents,
+          isBlocked: dependencies.some(blocker => blocker.status !== 'completed')
+        }
+      });
+
+    } catch (error) {
+      return ErrorHandler.handle(error);
+    }
+  }
+
+  static async addDependency(request: Request, params: any, user: User): Promise<Response> {
+    try {
+      const taskId = parseInt(params.id);
+      const { taskId: otherTaskId, type } = dependencySchema.parse(await request.json());
+
+      const task = await TaskModel.findAccessible(taskId, user);
+      if (!task) {
+        return ErrorHandler.notFound('Task');
+      }
+
+      const otherTask = await TaskModel.findAccessible(otherTaskId, user);
+      if (!otherTask) {
+        return ErrorHandler.notFound('Linked task');
+      }
+
+      await Permissions.assert(
+        Permissions.canEditTask(user, task),
+        'You can only link tasks you created or are assigned to'
+      );
+
+      // "blocks" means this task blocks the other one; "blocked_by" is the reverse
+      const [blockerId, blockedId] = type === 'blocks' ? [taskId, otherTaskId] : [otherTaskId, taskId];
+      await TaskModel.addDependency(blockerId, blockedId);
+
+      return Response.json({
+        success: true,
+        data: await TaskModel.findById(taskId, { includeDependencies: true })
+      }, { status: 201 });
+
+    } catch (error) {
+      return ErrorHandler.handle(error);
+    }
+  }
+
+  static async removeDependency(_request: Request, params: any, user: User): Promise<Response> {
+    try {
+      const taskId = parseInt(params.id);
+      const otherTaskId = parseInt(params.dependencyId);
+
+      const task = await TaskModel.findAccessible(taskId, user);
+      if (!task) {
+        return ErrorHandler.notFound('Task');
+      }
+
+      await Permissions.assert(
+        Permissions.canEditTask(user, task),
+        'You can only unlink tasks you created or are assigned to'
+      );
+
+      // The link may point either way, so try both directions
+      const removed = await TaskModel.removeDependency(otherTaskId, taskId)
+        || await TaskModel.removeDependency(taskId, otherTaskId);
+
+      if (!removed) {
+        return ErrorHandler.notFound('Dependency');
+      }
+
+      return Response.json({
+        success: true,
+        data: await TaskModel.findById(taskId, { includeDependencies: true })
+      });
+
+    } catch (error) {
+      return ErrorHandler.handle(error);
+    }
+  }
+}
@@ -0,0 +1,237 @@
+import { ErrorHandler } from '../middleware/errors';
+import { AttachmentModel } from '../models/attachment';
+import { teamMemberRoleSchema } from '../models/schemas';
+import { TeamModel } from '../models/team';
+import { eventManager } from '../services/event-manager';
+import type { CreateTeamRequest, TeamFilters, TeamMember, User } from '../../../shared/types';
+
+export class TeamController {
+  static async getTeams(request: Request, _params: any, user: User): Promise<Response> {
+    try {
+      const url = new URL(request.url);
+      const filters: TeamFilters = {
+        search: url.searchParams.get('search') || undefined,
+        memberRole: url.searchParams.get('memberRole') as any,
+        sortBy: url.searchParams.get('sortBy') as any,
+        sortOrder: url.searchParams.get('sortOrder') as any
+      };
+
+      const page = parseInt(url.searchParams.get('page') || '1');
+      const limit = Math.min(parseInt(url.searchParams.get('limit') || '20'), 100);
+
+      const result = await TeamModel.findMany(filters, user, page, limit);
+
+      return Response.json({
+        success: true,
+        data: result.teams,
+        pagination: result.pagination
+      });
+
+    } catch (error) {
+      return ErrorHandler.handle(error);
+    }
+  }
+
+  static async getTeam(_request: Request, params: any, user: User): Promise<Response> {
+    try {
+      const teamId = parseInt(params.id);
+
+      if (!(await TeamModel.canAccess(teamId, user))) {
+        return ErrorHandler.notFound('Team');
+      }
+
+      const team = await TeamModel.findById(teamId);
+      if (!team) {
+        return ErrorHandler.notFound('Team');
+      }
+
+      return Response.json({
+        success: true,
+        data: team
+      });
+
+    } catch (error) {
+      return ErrorHandler.handle(error);
+    }
+  }
+
+  static async createTeam(request: Request, _params: any, user: User): Promise<Response> {
+    try {
+      const body = await request.json() as CreateTeamRequest;
+      const team = await TeamModel.create(body, user);
+      await eventManager.membershipChanged([user.id]);
+
+      return Response.json({
+        success: true,
+        data: team
+      }, { status: 201 });
+
+    } catch (error) {
+      return ErrorHandler.handle(error);
+    }
+  }
+
+  static async updateTeam(request: Request, params: any, user: User): Promise<Response> {
+    try {
+      const teamId = parseInt(params.id);
+      const body = await request.json() as Partial<CreateTeamRequest>;
+
+      if (!(await TeamModel.canAccess(teamId, user)) || !(await TeamModel.findById(teamId))) {
+        return ErrorHandler.notFound('Team');
+      }
+
+      if (!(await TeamModel.canManage(teamId, user))) {
+        return ErrorHandler.forbidden('Only team owners and admins can update the team');
+      }
+
+      const team = await TeamModel.update(teamId, body);
+
+      return Response.json({
+        success: true,
+        data: team
+      });
+
+    } catch (error) {
+      return ErrorHandler.handle(error);
+    }
+  }
+
+  static async deleteTeam(_request: Request, params: any, user: User): Promise<Response> {
+    try {
+      const teamId = parseInt(params.id);
+
+      if (!(await TeamModel.canAccess(teamId, user)) || !(await TeamModel.findById(teamId))) {
+        return ErrorHandler.notFound('Team');
+      }
+
+      const membership = await TeamModel.getMembership(teamId, user.id);
+      if (user.role !== 'admin' && membership?.role !== 'owner') {
+        return ErrorHandler.forbidden('Only team owners can delete the team');
+      }
+
+      const memberIds = await TeamModel.getMemberIds(teamId);
+      const filePaths = await AttachmentModel.findFilePathsByTeam(teamId);
+      await TeamModel.delete(teamId);
+      await AttachmentModel.removeUnreferenced(filePaths);
+      await eventManager.membershipChanged(memberIds);
+
+      return Response.json({
+        success: true,
+        message: 'Team deleted successfully'
+      });
+
+    } catch (error) {
+      return ErrorHandler.handle(error);
+    }
+  }
+
+  static async addMember(request: Request, params: any, user: User): Promise<Response> {
+    try {
+      const teamId = parseInt(params.id);
+      const body = await request.json() as { email: string; role?: TeamMember['role'] };
+
+      if (!(await TeamModel.canAccess(teamId, user)) || !(await TeamModel.findById(teamId))) {
+        return ErrorHandler.notFound('Team');
+      }
+
+      if (!(await TeamModel.canManage(teamId, user))) {
+        return ErrorHandler.forbidden('Only team owners and admins can invite members');
+      }
+
+      const member = await TeamModel.addMember(teamId, body);
+      await eventManager.membershipChanged([member.userId]);
+
+      return Response.json({
+        success: true,
+        data: member
+      }, { status: 201 });
+
+    } catch (error) {
+      return ErrorHandler.handle(error);
+    }
+  }
+
+  static async updateMemberRole(request: Request, params: any, user: User): Promise<Response> {
+    try {
+      const teamId = parseInt(params.id);
+      const memberId = parseInt(params.userId);
+      const { role } = teamMemberRoleSchema.parse(await request.json());
+
+      if (!(await TeamModel.canAccess(teamId, user))) {
+        return ErrorHandler.notFound('Team');
+      }
+
+      const target = await TeamModel.getMembership(teamId, memberId);
+      if (!target) {
+        return ErrorHandler.notFound('Team member');
+      }
+
+      if (!(await TeamModel.canManage(teamId, user))) {
+        return ErrorHandler.forbidden('Only team owners and admins can change member roles');
+      }
+
+      // Ownership can only be granted or taken away by another owner
+      const membership = await TeamModel.getMembership(teamId, user.id);
+      const isOwner = user.role === 'admin' || membership?.role === 'owner';
+      if ((role === 'owner' || target.role === 'owner') && !isOwner) {
+        return ErrorHandler.forbidden('Only team owners can change ownership');
+      }
+
+      if (target.role === 'owner' && role !== 'owner' && (await TeamModel.countOwners(teamId)) <= 1) {
+        return ErrorHandler.badRequest('A team must keep at least one owner');
+      }
+
+      const member = await TeamModel.updateMemberRole(teamId, memberId, role);
+
+      return Response.json({
+        success: true,
+        data: member
+      });
+
+    } catch (error) {
+      return ErrorHandler.handle(error);
+    }
+  }
+
+  static async removeMember(_request: Request, params: any, user: User): Promise<Response> {
+    try {
+      const teamId = parseInt(params.id);
+      const memberId = parseInt(params.userId);
+
+      if (!(await TeamModel.canAccess(teamId, user))) {
+        return ErrorHandler.notFound('Team');
+      }
+
+      const target = await TeamModel.getMembership(teamId, memberId);
+      if (!target) {
+        return ErrorHandler.notFound('Team member');
+      }
+
+      // Members may always leave; removing someone else needs manage rights
+      const isSelf = memberId === user.id;
+      if (!isSelf && !(await TeamModel.canManage(teamId, user))) {
+        return ErrorHandler.forbidden('Only team owners and admins can remove members');
+      }
+
+      const membership = await TeamModel.getMembership(teamId, user.id);
+      if (!isSelf && target.role === 'owner' && user.role !== 'admin' && membership?.role !== 'owner') {
+        return ErrorHandler.forbidden('Only team owners can remove another owner');
+      }
+
+      if (target.role === 'owner' && (await TeamModel.countOwners(teamId)) <= 1) {
+        return ErrorHandler.badRequest('A team must keep at least one owner');
+      }
+
+      await TeamModel.removeMember(teamId, memberId);
+      await eventManager.membershipChanged([memberId]);
+
+      return Response.json({
+        success: true,
+        message: 'Team member removed successfully'
+      });
+
+    } catch (error) {
+      return ErrorHandler.handle(error);
+    }
+  }
+}
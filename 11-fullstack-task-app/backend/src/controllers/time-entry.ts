@@ -0,0 +1,301 @@
+import { randomBytes } from 'crypto';
+import { withTransaction } from '../database';
+import { ErrorHandler } from '../middleware/errors';
+import { ProjectModel } from '../models/project';
+import { timerSchema } from '../models/schemas';
+import { TaskModel } from '../models/task';
+import { TimeEntryModel } from '../models/time-entry';
+import { eventManager } from '../services/event-manager';
+import { Permissions } from '../services/permissions';
+import { toCsvRow } from '../utils/csv';
+import type {
+  CreateTimeEntryRequest, TimesheetFilters, TimesheetReport, UpdateTimeEntryRequest, User
+} from '../../../shared/types';
+
+export class TimeEntryController {
+  // Pushes the recomputed actualHours to everyone looking at the task
+  private static async broadcastTask(taskId: number, user: User): Promise<void> {
+    const task = await TaskModel.findById(taskId);
+    if (!task) return;
+
+    await eventManager.broadcastToProject({
+      id: randomBytes(16).toString('hex'),
+      type: 'task_updated',
+      data: task,
+      userId: user.id,
+      timestamp: new Date().toISOString()
+    }, task.projectId);
+  }
+
+  private static async findEntry(params: any, user: User) {
+    const task = await TaskModel.findAccessible(parseInt(params.id), user);
+    const entry = await TimeEntryModel.findById(parseInt(params.entryId));
+
+    if (!task || !entry || entry.taskId !== task.id) {
+      return null;
+    }
+
+    return { task, entry };
+  }
+
+  static async getTimeEntries(request: Request, params: any, user: User): Promise<Response> {
+    try {
+      const taskId = parseInt(params.id);
+      const url = new URL(request.url);
+      const page = parseInt(url.searchParams.get('page') || '1');
+      const limit = Math.min(parseInt(url.searchParams.get('limit') || '20'), 100);
+
+      const task = await TaskModel.findAccessible(taskId, user);
+      if (!task) {
+        return ErrorHandler.notFound('Task');
+      }
+
+      const result = await TimeEntryModel.findByTask(taskId, page, limit);
+
+      return Response.json({
+        success: true,
+        data: result.entries,
+        pagination: result.pagination
+      });
+
+    } catch (error) {
+      return ErrorHandler.handle(error);
+    }
+  }
+
+  static async createTimeEntry(request: Request, params: any, user: User): Promise<Response> {
+    try {
+      const taskId = parseInt(params.id);
+      const body = await request.json() as CreateTimeEntryRequest;
+
+      const task = await TaskModel.findAccessible(taskId, user);
+      if (!task) {
+        return ErrorHandler.notFound('Task');
+      }
+
+      const entry = await TimeEntryModel.create(taskId, user.id, body);
+      await TimeEntryController.broadcastTask(taskId, user);
+
+      return Response.json({
+        success: true,
+        data: entry
+      }, { status: 201 });
+
+    } catch (error) {
+      return ErrorHandler.handle(error);
+    }
+  }
+
+  static async updateTimeEntry(request: Request, params: any, user: User): Promise<Response> {
+    try {
+      const body = await request.json() as UpdateTimeEntryRequest;
+
+      const found = await TimeEntryController.findEntry(params, user);
+      if (!found) {
+        return ErrorHandler.notFound('Time entry');
+      }
+
+      await Permissions.assert(
+        Permissions.canManageTimeEntry(user, found.entry, found.task),
+        'You can only change your own time entries'
+      );
+
+      const entry = await TimeEntryModel.update(found.entry, body);
+      await TimeEntryController.broadcastTask(found.task.id, user);
+
+      return Response.json({
+        success: true,
+        data: entry
+      });
+
+    } catch (error) {
+      return ErrorHandler.handle(error);
+    }
+  }
+
+  static async deleteTimeEntry(_request: Request, params: any, user: User): Promise<Response> {
+    try {
+      const found = await TimeEntryController.findEntry(params, user);
+      if (!found) {
+        return ErrorHandler.notFound('Time entry');
+      }
+
+      await Permissions.assert(
+        Permissions.canManageTimeEntry(user, found.entry, found.task),
+        'You can only delete your own time entries'
+      );
+
+      await TimeEntryModel.delete(found.entry);
+      await TimeEntryController.broadcastTask(found.task.id, user);
+
+      return Response.json({
+        success: true,
+        message: 'Time entry deleted successfully'
+      });
+
+    } catch (error) {
+      return ErrorHandler.handle(error);
+    }
+  }
+
+  static async getRunningTimer(_request: Request, _params: any, user: User): Promise<Response> {
+    try {
+      const entry = await TimeEntryModel.findRunning(user.id);
+
+      return Response.json({
+        success: true,
+        data: entry
+      });
+
+    } catch (error) {
+      return ErrorHandler.handle(error);
+    }
+  }
+
+  // Starting a timer stops whichever timer the user still had running
+  static async startTimer(request: Request, params: any, user: User): Promise<Response> {
+    try {
+      const taskId = parseInt(params.id);
+      const { note } = timerSchema.parse(await request.json().catch(() => ({})));
+
+      const task = await TaskModel.findAccessible(taskId, user);
+      if (!task) {
+        return ErrorHandler.notFound('Task');
+      }
+
+      // Read inside the transaction so the running timer cannot change in between;
+      // a concurrent start that still gets in first is reported by start() as a 409
+      const result = await withTransaction(async () => {
+        const running = await TimeEntryModel.findRunning(user.id);
+        if (running?.taskId === taskId) return { running };
+
+        return {
+          stopped: running ? await TimeEntryModel.stop(running) : null,
+          entry: await TimeEntryModel.start(taskId, user.id, note)
+        };
+      });
+
+      if ('running' in result) {
+        return Response.json({
+          success: true,
+          data: result.running
+        });
+      }
+
+      const { stopped, entry } = result;
+
+      if (stopped) {
+        await TimeEntryController.broadcastTask(stopped.taskId, user);
+      }
+
+      return Response.json({
+        success: true,
+        data: entry,
+        message: stopped ? 'Previous timer stopped' : undefined
+      }, { status: 201 });
+
+    } catch (error) {
+      return ErrorHandler.handle(error);
+    }
+  }
+
+  static async stopTimer(_request: Request, params: any, user: User): Promise<Response> {
+    try {
+      const taskId = parseInt(params.id);
+
+      const task = await TaskModel.findAccessible(taskId, user);
+      if (!task) {
+        return ErrorHandler.notFound('Task');
+      }
+
+      const running = await TimeEntryModel.findRunning(user.id);
+      if (!running || running.taskId !== taskId) {
+        return ErrorHandler.notFound('Running timer');
+      }
+
+      const entry = await TimeEntryModel.stop(running);
+      await TimeEntryController.broadcastTask(taskId, user);
+
+      return Response.json({
+        success: true,
+        data: entry
+      });
+
+    } catch (error) {
+      return ErrorHandler.handle(error);
+    }
+  }
+
+  // ?format=csv downloads the report; JSON otherwise
+  static async getTimesheet(request: Request, _params: any, user: User): Promise<Response> {
+    try {
+      const url = new URL(request.url);
+      const now = new Date();
+      const filters: TimesheetFilters = {
+        // Members see their own time unless they ask for someone else's (and are refused below)
+        userId: url.searchParams.get('userId')
+          ? parseInt(url.searchParams.get('userId')!)
+          : user.role === 'member' ? user.id : undefined,
+        projectId: url.searchParams.get('projectId') ? parseInt(url.searchParams.get('projectId')!) : undefined,
+        from: url.searchParams.get('from') || new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000).toISOString(),
+        to: url.searchParams.get('to') || now.toISOString()
+      };
+
+      const from = new Date(filters.from);
+      const to = new Date(filters.to);
+      if (isNaN(from.getTime()) || isNaN(to.getTime())) {
+        return ErrorHandler.badRequest('from and to must be ISO dates');
+      }
+
+      // Other people's time is visible to managers and admins only
+      if (filters.userId && filters.userId !== user.id && user.role === 'member') {
+        return ErrorHandler.forbidden('You can only view your own timesheet');
+      }
+
+      if (filters.projectId && !(await ProjectModel.findAccessible(filters.projectId, user))) {
+        return ErrorHandler.notFound('Project');
+      }
+
+      const rows = await TimeEntryModel.timesheet(filters, user);
+      const totalHours = Math.round(rows.reduce((sum, row) => sum + row.hours, 0) * 100) / 100;
+
+      if (url.searchParams.get('format') === 'csv') {
+        const csv = [
+          toCsvRow(['Date', 'User', 'Email', 'Project', 'Task ID', 'Task', 'Started At', 'Ended At', 'Hours', 'Source', 'Note']),
+          ...rows.map(row => toCsvRow([
+            row.startedAt.slice(0, 10),
+            row.userName,
+            row.userEmail,
+            row.projectName,
+            row.taskId,
+            row.taskTitle,
+            row.startedAt,
+            row.endedAt,
+            row.hours.toFixed(2),
+            row.source,
+            row.note
+          ])),
+          toCsvRow(['Total', '', '', '', '', '', '', '', totalHours.toFixed(2), '', ''])
+        ].join('');
+
+        return new Response(csv, {
+          headers: {
+            'Content-Type': 'text/csv; charset=utf-8',
+            // Built from the parsed dates so nothing from the query string reaches the header
+            'Content-Disposition': `attachment; filename="timesheet-${from.toISOString().slice(0, 10)}-${to.toISOString().slice(0, 10)}.csv"`
+          }
+        });
+      }
+
+      const report: TimesheetReport = { from: filters.from, to: filters.to, totalHours, entries: rows };
+
+      return Response.json({
+        success: true,
+        data: report
+      });
+
+    } catch (error) {
+      return ErrorHandler.handle(error);
+    }
+  }
+}
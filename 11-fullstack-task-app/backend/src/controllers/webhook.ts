@@ -0,0 +1,192 @@
+import { ErrorHandler, HttpError } from '../middleware/errors';
+import { webhookSchema, webhookUpdateSchema } from '../models/schemas';
+import { TeamModel } from '../models/team';
+import { WebhookModel } from '../models/webhook';
+import { WebhookDeliveryModel } from '../models/webhook-delivery';
+import { Permissions } from '../services/permissions';
+import { webhookDispatcher } from '../services/webhook-dispatcher';
+import type { User, Webhook, WebhookDelivery } from '../../../shared/types';
+
+export class WebhookController {
+  // Webhooks are managed by the managers of the team they belong to
+  private static async findManaged(params: any, user: User): Promise<Webhook> {
+    const webhook = await WebhookModel.findById(parseInt(params.id));
+
+    if (!webhook || !(await TeamModel.canAccess(webhook.teamId, user))) {
+      throw new HttpError(404, 'NOT_FOUND', 'Webhook not found');
+    }
+
+    await Permissions.assert(
+      Permissions.isTeamManager(user, webhook.teamId),
+      'Only team managers can manage webhooks'
+    );
+
+    return webhook;
+  }
+
+  static async getWebhooks(request: Request, _params: any, user: User): Promise<Response> {
+    try {
+      const url = new URL(request.url);
+      const teamId = parseInt(url.searchParams.get('teamId') || '');
+
+      if (isNaN(teamId)) {
+        return ErrorHandler.badRequest('teamId is required');
+      }
+
+      if (!(await TeamModel.canAccess(teamId, user))) {
+        return ErrorHandler.notFound('Team');
+      }
+
+      await Permissions.assert(
+        Permissions.isTeamManager(user, teamId),
+        'Only team managers can manage webhooks'
+      );
+
+      const webhooks = await WebhookModel.findByTeam(teamId);
+
+      return Response.json({
+        success: true,
+        data: webhooks
+      });
+
+    } catch (error) {
+      return ErrorHandler.handle(error);
+    }
+  }
+
+  // The response carries the secret; it is not shown again
+  static async createWebhook(request: Request, _params: any, user: User): Promise<Response> {
+    try {
+      // Rejects non-object bodies (including null) with a 400 before teamId is read
+      const body = webhookSchema.parse(await request.json());
+
+      if (!body.teamId || !(await TeamModel.canAccess(body.teamId, user))) {
+        return ErrorHandler.notFound('Team');
+      }
+
+      await Permissions.assert(
+        Permissions.isTeamManager(user, body.teamId),
+        'Only team managers can manage webhooks'
+      );
+
+      const webhook = await WebhookModel.create(body, user);
+
+      return Response.json({
+        success: true,
+        data: webhook
+      }, { status: 201 });
+
+    } catch (error) {
+      return ErrorHandler.handle(error);
+    }
+  }
+
+  static async getWebhook(_request: Request, params: any, user: User): Promise<Response> {
+    try {
+      const webhook = await WebhookController.findManaged(params, user);
+
+      return Response.json({
+        success: true,
+        data: webhook
+      });
+
+    } catch (error) {
+      return ErrorHandler.handle(error);
+    }
+  }
+
+  static async updateWebhook(request: Request, params: any, user: User): Promise<Response> {
+    try {
+      const body = webhookUpdateSchema.parse(await request.json());
+      const webhook = await WebhookController.findManaged(params, user);
+
+      const updatedWebhook = await WebhookModel.update(webhook.id, body);
+
+      return Response.json({
+        success: true,
+        data: updatedWebhook
+      });
+
+    } catch (error) {
+      return ErrorHandler.handle(error);
+    }
+  }
+
+  static async deleteWebhook(_request: Request, params: any, user: User): Promise<Response> {
+    try {
+      const webhook = await WebhookController.findManaged(params, user);
+
+      await WebhookModel.delete(webhook.id);
+
+      return Response.json({
+        success: true,
+        message: 'Webhook deleted successfully'
+      });
+
+    } catch (error) {
+      return ErrorHandler.handle(error);
+    }
+  }
+
+  // Sends a signed "ping" payload and returns the outcome of the first attempt
+  static async pingWebhook(_request: Request, params: any, user: User): Promise<Response> {
+    try {
+      const webhook = await WebhookController.findManaged(params, user);
+      const delivery = await webhookDispatcher.ping(webhook, user);
+
+      return Response.json({
+        success: true,
+        data: delivery
+      });
+
+    } catch (error) {
+      return ErrorHandler.handle(error);
+    }
+  }
+
+  static async getDeliveries(request: Request, params: any, user: User): Promise<Response> {
+    try {
+      const url = new URL(request.url);
+      const status = url.searchParams.get('status') as WebhookDelivery['status'] | null;
+      const page = parseInt(url.searchParams.get('page') || '1');
+      const limit = Math.min(parseInt(url.searchParams.get('limit') || '20'), 100);
+
+      if (status && !['pending', 'succeeded', 'failed'].includes(status)) {
+        return ErrorHandler.badRequest('status must be pending, succeeded or failed');
+      }
+
+      const webhook = await WebhookController.findManaged(params, user);
+      const result = await WebhookDeliveryModel.findByWebhook(webhook.id, status || undefined, page, limit);
+
+      return Response.json({
+        success: true,
+        data: result.deliveries,
+        pagination: result.pagination
+      });
+
+    } catch (error) {
+      return ErrorHandler.handle(error);
+    }
+  }
+
+  static async redeliver(_request: Request, params: any, user: User): Promise<Response> {
+    try {
+      const webhook = await WebhookController.findManaged(params, user);
+      const delivery = await WebhookDeliveryModel.findById(parseInt(params.deliveryId));
+
+      if (!delivery || delivery.webhookId !== webhook.id) {
+        return ErrorHandler.notFound('Delivery');
+      }
+
+      const redelivery = await webhookDispatcher.redeliver(delivery);
+
+      return Response.json({
+        success: true,
+        data: redelivery
+      }, { status: 201 });
+
+    } catch (error) {
+      return ErrorHandler.handle(error);
+    }
+  }
+}
@@ -0,0 +1,74 @@
+import { Database } from 'bun:sql';
+import { Redis } from 'bun:redis';
+import { AsyncLocalStorage } from 'async_hooks';
+import { config } from './config';
+import { detectDialect } from './utils/migrator';
+
+// Initialize database and Redis
+export const dialect = detectDialect(config.databaseUrl);
+
+// SQLite gets a single connection: a second handle on a :memory: URL would be
+// a separate, empty database, and on a file it would hit SQLITE_BUSY while
+// the other one holds a transaction
+const pool = dialect === 'sqlite'
+  ? new Database(config.databaseUrl, { max: 1 })
+  : new Database(config.databaseUrl);
+
+type Connection = Pick<typeof pool, 'get' | 'all' | 'run'>;
+
+// Inside withTransaction, `db` resolves to the transaction's connection, so
+// BEGIN/COMMIT and the statements between them cannot land on different ones
+const transactionScope = new AsyncLocalStorage<Connection>();
+
+// SQLite transactions share the one connection and so take turns
+let sqliteTransactionQueue: Promise<unknown> = Promise.resolve();
+
+export function connection() {
+  return transactionScope.getStore() ?? pool;
+}
+
+export const db = {
+  get: (query: string, params?: any[]) => connection().get(query, params),
+  all: (query: string, params?: any[]) => connection().all(query, params),
+  run: (query: string, params?: any[]) => connection().run(query, params)
+};
+
+// SQLite has no ILIKE, but its LIKE already ignores case for ASCII text
+export const ILIKE = dialect === 'postgres' ? 'ILIKE' : 'LIKE';
+export const redis = new Redis({ url: config.redisUrl });
+
+// Runs the callback inside a transaction, rolling back if it throws. A nested
+// call joins the transaction it is already in.
+export async function withTransaction<T>(callback: () => Promise<T>): Promise<T> {
+  if (transactionScope.getStore()) return await callback();
+
+  if (dialect === 'sqlite') {
+    const run = sqliteTransactionQueue.then(() => runTransaction(pool, callback));
+    sqliteTransactionQueue = run.catch(() => undefined);
+    return await run;
+  }
+
+  // Each PostgreSQL transaction reserves a pool connection of its own, so
+  // unrelated requests do not wait on each other
+  const reserved = await pool.reserve();
+  try {
+    return await runTransaction(reserved, callback);
+  } finally {
+    reserved.release();
+  }
+}
+
+async function runTransaction<T>(connection: Connection, callback: () => Promise<T>): Promise<T> {
+  return await transactionScope.run(connection, async () => {
+    await db.run('BEGIN TRANSACTION');
+
+    try {
+      const result = await callback();
+      await db.run('COMMIT');
+      return result;
+    } catch (error) {
+      await db.run('ROLLBACK');
+      throw error;
+    }
+  });
+}
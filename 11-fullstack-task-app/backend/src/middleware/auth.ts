@@ -0,0 +1,155 @@
+import { randomBytes } from 'crypto';
+import { jwt } from 'jsonwebtoken';
+import { config } from '../config';
+import { db, redis } from '../database';
+import { ErrorHandler } from './errors';
+import { RefreshTokenModel } from '../models/refresh-token';
+import type { User } from '../../../shared/types';
+
+// Access token revocation list
+// Access tokens are stateless, so logout and refresh-token reuse are recorded in
+// Redis until the affected tokens would have expired anyway
+export class TokenRevocation {
+  static async revokeToken(jti: string, expiresAt: number): Promise<void> {
+    const ttl = Math.max(1, expiresAt - Math.floor(Date.now() / 1000));
+    await redis.setex(`revoked:jti:${jti}`, ttl, '1');
+  }
+
+  static async revokeFamily(familyId: string): Promise<void> {
+    await redis.setex(`revoked:family:${familyId}`, config.accessTokenTtl, '1');
+  }
+
+  static async isRevoked(payload: { jti?: string; fam?: string }): Promise<boolean> {
+    if (payload.jti && await redis.exists(`revoked:jti:${payload.jti}`)) return true;
+    if (payload.fam && await redis.exists(`revoked:family:${payload.fam}`)) return true;
+    return false;
+  }
+}
+
+// Authentication middleware
+export class AuthMiddleware {
+  // Short-lived access token; `fam` ties it to the refresh token family it came from
+  static generateToken(user: User, familyId: string): string {
+    return jwt.sign(
+      {
+        sub: user.id.toString(),
+        email: user.email,
+        role: user.role,
+        fam: familyId
+      },
+      config.jwtSecret,
+      {
+        expiresIn: config.accessTokenTtl,
+        issuer: 'taskflow',
+        audience: 'taskflow-users',
+        jwtid: randomBytes(16).toString('hex')
+      }
+    );
+  }
+
+  // Issues an access token plus a refresh token; omitting familyId starts a new session
+  static async issueTokens(user: User, familyId: string = randomBytes(16).toString('hex')) {
+    const refreshToken = await RefreshTokenModel.create(user.id, familyId);
+
+    return {
+      token: this.generateToken(user, familyId),
+      refreshToken,
+      expiresIn: config.accessTokenTtl,
+      refreshExpiresIn: config.refreshTokenTtl
+    };
+  }
+
+  static decodeToken(token: string): any | null {
+    try {
+      return jwt.verify(token, config.jwtSecret, {
+        issuer: 'taskflow',
+        audience: 'taskflow-users'
+      });
+    } catch (error) {
+      return null;
+    }
+  }
+
+  static async verifyToken(token: string): Promise<User | null> {
+    try {
+      const payload = this.decodeToken(token);
+      if (!payload) return null;
+
+      if (await TokenRevocation.isRevoked(payload)) return null;
+
+      // Get fresh user data from database
+      const user = await db.get(
+        `SELECT id, email, name, avatar, role, is_active, created_at, updated_at, last_login_at, email_verified_at
+         FROM users WHERE id = ? AND is_active = true`,
+        [parseInt(payload.sub)]
+      );
+
+      if (!user) return null;
+
+      return {
+        id: user.id,
+        email: user.email,
+        name: user.name,
+        avatar: user.avatar,
+        role: user.role,
+        isActive: user.is_active,
+        createdAt: user.created_at,
+        updatedAt: user.updated_at,
+        lastLoginAt: user.last_login_at,
+        emailVerifiedAt: user.email_verified_at
+      };
+    } catch (error) {
+      return null;
+    }
+  }
+
+  static async middleware(request: Request): Promise<{ user: User } | null> {
+    const authHeader = request.headers.get('authorization');
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return null;
+    }
+
+    const token = authHeader.substring(7);
+    const user = await this.verifyToken(token);
+
+    if (!user) {
+      return null;
+    }
+
+    return { user };
+  }
+
+  static requireAuth(handler: (request: Request, params: any, user: User) => Promise<Response>) {
+    return async (request: Request, params: any) => {
+      const auth = await this.middleware(request);
+      if (!auth) {
+        return Response.json({
+          success: false,
+          error: 'Unauthorized',
+          code: 'UNAUTHORIZED'
+        }, { status: 401 });
+      }
+
+      // Update last login
+      await db.run(
+        'UPDATE users SET last_login_at = CURRENT_TIMESTAMP WHERE id = ?',
+        [auth.user.id]
+      );
+
+      return handler(request, params, auth.user);
+    };
+  }
+
+  static requireRole(
+    roles: User['role'][],
+    handler: (request: Request, params: any, user: User) => Promise<Response>
+  ) {
+    return this.requireAuth(async (request, params, user) => {
+      if (!roles.includes(user.role)) {
+        return ErrorHandler.forbidden('You do not have permission to perform this action');
+      }
+
+      return handler(request, params, user);
+    });
+  }
+}
@@ -0,0 +1,84 @@
+import { z } from 'zod';
+import { config } from '../config';
+
+// Error handling
+// Unique index or constraint violation, as reported by PostgreSQL or SQLite
+export function isUniqueViolation(error: any): boolean {
+  return error?.code === '23505' || error?.errno === '23505' ||
+    error?.code === 'SQLITE_CONSTRAINT_UNIQUE' || /UNIQUE constraint failed/.test(error?.message ?? '');
+}
+
+export class HttpError extends Error {
+  constructor(
+    public statusCode: number,
+    public code: string,
+    message: string,
+    public data?: any,
+    public headers?: Record<string, string>
+  ) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+export class ErrorHandler {
+  static handle(error: any): Response {
+    if (error instanceof HttpError) {
+      return Response.json({
+        success: false,
+        error: error.message,
+        code: error.code,
+        data: error.data
+      }, { status: error.statusCode, ...(error.headers && { headers: error.headers }) });
+    }
+
+    console.error('API Error:', error);
+
+    if (error instanceof z.ZodError) {
+      return Response.json({
+        success: false,
+        error: 'Validation failed',
+        code: 'VALIDATION_ERROR',
+        details: error.errors
+      }, { status: 400 });
+    }
+
+    return Response.json({
+      success: false,
+      error: config.nodeEnv === 'production' ? 'Internal server error' : error.message,
+      code: 'INTERNAL_ERROR'
+    }, { status: 500 });
+  }
+
+  static notFound(resource: string = 'Resource'): Response {
+    return Response.json({
+      success: false,
+      error: `${resource} not found`,
+      code: 'NOT_FOUND'
+    }, { status: 404 });
+  }
+
+  static unauthorized(message: string = 'Unauthorized'): Response {
+    return Response.json({
+      success: false,
+      error: message,
+      code: 'UNAUTHORIZED'
+    }, { status: 401 });
+  }
+
+  static forbidden(message: string = 'Forbidden'): Response {
+    return Response.json({
+      success: false,
+      error: message,
+      code: 'FORBIDDEN'
+    }, { status: 403 });
+  }
+
+  static badRequest(message: string = 'Bad request'): Response {
+    return Response.json({
+      success: false,
+      error: message,
+      code: 'BAD_REQUEST'
+    }, { status: 400 });
+  }
+}
@@ -0,0 +1,103 @@
+import { db } from '../database';
+import type { ActivityEntry, AuditFilters } from '../../../shared/types';
+
+// Activity history: one row per create/update/delete with the changed fields
+export class ActivityModel {
+  private static toEntry(row: any): ActivityEntry {
+    return {
+      id: row.id,
+      entityType: row.entity_type,
+      entityId: row.entity_id,
+      action: row.action,
+      userId: row.user_id ?? undefined,
+      changes: row.changes ? JSON.parse(row.changes) : [],
+      createdAt: row.created_at,
+      ...(row.user_name && {
+        user: {
+          id: row.user_id,
+          email: row.user_email,
+          name: row.user_name,
+          avatar: row.user_avatar,
+          role: row.user_role,
+          isActive: row.user_is_active,
+          createdAt: row.user_created_at,
+          updatedAt: row.user_updated_at
+        }
+      })
+    };
+  }
+
+  private static readonly selectColumns = `
+    SELECT a.*, u.email as user_email, u.name as user_name, u.avatar as user_avatar,
+           u.role as user_role, u.is_active as user_is_active,
+           u.created_at as user_created_at, u.updated_at as user_updated_at
+    FROM activity_log a
+    LEFT JOIN users u ON a.user_id = u.id`;
+
+  static async create(entry: Pick<ActivityEntry, 'entityType' | 'entityId' | 'action' | 'userId' | 'changes'>): Promise<void> {
+    await db.run(
+      `INSERT INTO activity_log (entity_type, entity_id, action, user_id, changes, created_at)
+       VALUES (?, ?, ?, ?, ?, CURRENT_TIMESTAMP)`,
+      [entry.entityType, entry.entityId, entry.action, entry.userId ?? null, JSON.stringify(entry.changes)]
+    );
+  }
+
+  static async findMany(filters: AuditFilters, page = 1, limit = 20) {
+    const offset = (page - 1) * limit;
+    let whereClause = 'WHERE 1=1';
+    const params: any[] = [];
+
+    if (filters.userId) {
+      whereClause += ' AND a.user_id = ?';
+      params.push(filters.userId);
+    }
+
+    if (filters.entityType) {
+      whereClause += ' AND a.entity_type = ?';
+      params.push(filters.entityType);
+    }
+
+    if (filters.entityId) {
+      whereClause += ' AND a.entity_id = ?';
+      params.push(filters.entityId);
+    }
+
+    if (filters.action) {
+      whereClause += ' AND a.action = ?';
+      params.push(filters.action);
+    }
+
+    if (filters.from) {
+      whereClause += ' AND a.created_at >= ?';
+      params.push(filters.from);
+    }
+
+    if (filters.to) {
+      whereClause += ' AND a.created_at < ?';
+      params.push(filters.to);
+    }
+
+    const countResult = await db.get(`SELECT COUNT(*) as total FROM activity_log a ${whereClause}`, params);
+    const total = countResult?.total || 0;
+
+    const entries = await db.all(
+      `${this.selectColumns}
+       ${whereClause}
+       ORDER BY a.created_at DESC, a.id DESC
+       LIMIT ? OFFSET ?`,
+      [...params, limit, offset]
+    );
+
+    return {
+      entries: entries.map((row: any) => this.toEntry(row)),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+        hasNextPage: page * limit < total,
+        hasPrevPage: page > 1
+      }
+    };
+  }
+}
@@ -0,0 +1,129 @@
+import { config } from '../config';
+import { db } from '../database';
+import { HttpError } from '../middleware/errors';
+import { FileStorage } from '../services/file-storage';
+import { sniffMimeType } from '../utils/mime';
+import type { Attachment } from '../../../shared/types';
+
+export class AttachmentModel {
+  private static toAttachment(row: any): Attachment {
+    return {
+      id: row.id,
+      taskId: row.task_id,
+      uploadedById: row.uploaded_by_id,
+      fileName: row.file_name,
+      originalName: row.original_name,
+      mimeType: row.mime_type,
+      fileSize: row.file_size,
+      filePath: row.file_path,
+      uploadedAt: row.uploaded_at
+    };
+  }
+
+  static async findById(id: number): Promise<Attachment | null> {
+    const attachment = await db.get('SELECT * FROM attachments WHERE id = ?', [id]);
+    return attachment ? this.toAttachment(attachment) : null;
+  }
+
+  static async findByTask(taskId: number): Promise<Attachment[]> {
+    const attachments = await db.all(
+      'SELECT * FROM attachments WHERE task_id = ? ORDER BY uploaded_at DESC, id DESC',
+      [taskId]
+    );
+
+    return attachments.map((row: any) => this.toAttachment(row));
+  }
+
+  static async getTeamUsage(teamId: number): Promise<number> {
+    const result = await db.get(
+      `SELECT COALESCE(SUM(a.file_size), 0) as used
+       FROM attachments a
+       JOIN tasks t ON a.task_id = t.id
+       JOIN projects p ON t.project_id = p.id
+       WHERE p.team_id = ?`,
+      [teamId]
+    );
+
+    return Number(result?.used || 0);
+  }
+
+  static async create(taskId: number, teamId: number, uploadedById: number, file: File): Promise<Attachment> {
+    if (file.size === 0) {
+      throw new HttpError(400, 'EMPTY_FILE', 'Uploaded file is empty');
+    }
+
+    if (file.size > config.maxFileSize) {
+      throw new HttpError(413, 'FILE_TOO_LARGE', `File exceeds the ${config.maxFileSize} byte limit`);
+    }
+
+    const usage = await this.getTeamUsage(teamId);
+    if (usage + file.size > config.teamStorageQuota) {
+      throw new HttpError(413, 'QUOTA_EXCEEDED', 'Team storage quota exceeded');
+    }
+
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    const originalName = file.name || 'upload';
+    const mimeType = sniffMimeType(bytes, originalName);
+    if (!mimeType) {
+      throw new HttpError(415, 'UNSUPPORTED_MEDIA_TYPE', 'File type is not allowed');
+    }
+
+    const { fileName, filePath } = await FileStorage.save(bytes);
+
+    const result = await db.run(
+      `INSERT INTO attachments (task_id, uploaded_by_id, file_name, original_name, mime_type,
+                                file_size, file_path, uploaded_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)`,
+      [taskId, uploadedById, fileName, originalName, mimeType, bytes.byteLength, filePath]
+    );
+
+    const attachment = await this.findById(result.lastInsertRowid as number);
+    if (!attachment) throw new Error('Failed to create attachment');
+
+    return attachment;
+  }
+
+  static async delete(attachment: Attachment): Promise<boolean> {
+    const result = await db.run('DELETE FROM attachments WHERE id = ?', [attachment.id]);
+    await this.removeUnreferenced([attachment.filePath]);
+
+    return (result.changes || 0) > 0;
+  }
+
+  // Attachment rows go with their task (ON DELETE CASCADE), so callers collect
+  // the file paths first and pass them to removeUnreferenced once the rows are gone
+  static async findFilePathsByTask(taskId: number): Promise<string[]> {
+    const rows = await db.all('SELECT DISTINCT file_path FROM attachments WHERE task_id = ?', [taskId]);
+    return rows.map((row: any) => row.file_path);
+  }
+
+  static async findFilePathsByTeam(teamId: number): Promise<string[]> {
+    const rows = await db.all(
+      `SELECT DISTINCT a.file_path
+       FROM attachments a
+       JOIN tasks t ON a.task_id = t.id
+       JOIN projects p ON t.project_id = p.id
+       WHERE p.team_id = ?`,
+      [teamId]
+    );
+    return rows.map((row: any) => row.file_path);
+  }
+
+  // Content-addressed files may be shared, so only files no attachment refers to are removed
+  static async removeUnreferenced(filePaths: string[]): Promise<void> {
+    for (const filePath of new Set(filePaths)) {
+      const remaining = await db.get(
+        'SELECT COUNT(*) as total FROM attachments WHERE file_path = ?',
+        [filePath]
+      );
+
+      if (!Number(remaining?.total)) {
+        try {
+          await FileStorage.remove(filePath);
+        } catch (error) {
+          console.error('Attachment cleanup error:', error);
+        }
+      }
+    }
+  }
+}
@@ -0,0 +1,98 @@
+import { db } from '../database';
+import { commentSchema } from './schemas';
+import type { Comment } from '../../../shared/types';
+
+export class CommentModel {
+  private static toComment(row: any): Comment {
+    return {
+      id: row.id,
+      taskId: row.task_id,
+      userId: row.user_id,
+      content: row.content,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+      ...(row.user_name && {
+        user: {
+          id: row.user_id,
+          email: row.user_email,
+          name: row.user_name,
+          avatar: row.user_avatar,
+          role: row.user_role,
+          isActive: row.user_is_active,
+          createdAt: row.user_created_at,
+          updatedAt: row.user_updated_at
+        }
+      })
+    };
+  }
+
+  private static readonly selectColumns = `
+    SELECT c.*, u.email as user_email, u.name as user_name, u.avatar as user_avatar,
+           u.role as user_role, u.is_active as user_is_active,
+           u.created_at as user_created_at, u.updated_at as user_updated_at
+    FROM comments c
+    LEFT JOIN users u ON c.user_id = u.id`;
+
+  static async findById(id: number): Promise<Comment | null> {
+    const comment = await db.get(`${this.selectColumns} WHERE c.id = ?`, [id]);
+    return comment ? this.toComment(comment) : null;
+  }
+
+  static async findByTask(taskId: number, page = 1, limit = 20) {
+    const offset = (page - 1) * limit;
+
+    const countResult = await db.get('SELECT COUNT(*) as total FROM comments WHERE task_id = ?', [taskId]);
+    const total = countResult?.total || 0;
+
+    const comments = await db.all(
+      `${this.selectColumns}
+       WHERE c.task_id = ?
+       ORDER BY c.created_at ASC, c.id ASC
+       LIMIT ? OFFSET ?`,
+      [taskId, limit, offset]
+    );
+
+    return {
+      comments: comments.map((row: any) => this.toComment(row)),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+        hasNextPage: page * limit < total,
+        hasPrevPage: page > 1
+      }
+    };
+  }
+
+  static async create(taskId: number, userId: number, data: { content: string }): Promise<Comment> {
+    const validatedData = commentSchema.parse(data);
+
+    const result = await db.run(
+      `INSERT INTO comments (task_id, user_id, content, created_at, updated_at)
+       VALUES (?, ?, ?, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP)`,
+      [taskId, userId, validatedData.content]
+    );
+
+    const comment = await this.findById(result.lastInsertRowid as number);
+    if (!comment) throw new Error('Failed to create comment');
+
+    return comment;
+  }
+
+  static async update(id: number, data: { content: string }): Promise<Comment | null> {
+    const validatedData = commentSchema.parse(data);
+
+    await db.run(
+      'UPDATE comments SET content = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?',
+      [validatedData.content, id]
+    );
+
+    return await this.findById(id);
+  }
+
+  static async delete(id: number): Promise<boolean> {
+    const result = await db.run('DELETE FROM comments WHERE id = ?', [id]);
+    return (result.changes || 0) > 0;
+  }
+}
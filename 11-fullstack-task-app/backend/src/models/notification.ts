@@ -0,0 +1,104 @@
+import { db } from '../database';
+import type { Notification } from '../../../shared/types';
+
+export class NotificationModel {
+  private static toNotification(row: any): Notification {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      type: row.type,
+      title: row.title,
+      message: row.message,
+      data: row.data ? JSON.parse(row.data) : undefined,
+      isRead: !!row.is_read,
+      createdAt: row.created_at,
+      readAt: row.read_at
+    };
+  }
+
+  static async findById(id: number): Promise<Notification | null> {
+    const notification = await db.get('SELECT * FROM notifications WHERE id = ?', [id]);
+    return notification ? this.toNotification(notification) : null;
+  }
+
+  static async findByUser(userId: number, unreadOnly = false, page = 1, limit = 20) {
+    const offset = (page - 1) * limit;
+    let whereClause = 'WHERE user_id = ?';
+    const params: any[] = [userId];
+
+    if (unreadOnly) {
+      whereClause += ' AND is_read = false';
+    }
+
+    const countResult = await db.get(`SELECT COUNT(*) as total FROM notifications ${whereClause}`, params);
+    const total = countResult?.total || 0;
+
+    const notifications = await db.all(
+      `SELECT * FROM notifications ${whereClause}
+       ORDER BY created_at DESC, id DESC
+       LIMIT ? OFFSET ?`,
+      [...params, limit, offset]
+    );
+
+    return {
+      notifications: notifications.map((row: any) => this.toNotification(row)),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+        hasNextPage: page * limit < total,
+        hasPrevPage: page > 1
+      }
+    };
+  }
+
+  static async countUnread(userId: number): Promise<number> {
+    const result = await db.get(
+      'SELECT COUNT(*) as total FROM notifications WHERE user_id = ? AND is_read = false',
+      [userId]
+    );
+
+    return result?.total || 0;
+  }
+
+  static async create(notification: Pick<Notification, 'userId' | 'type' | 'title' | 'message' | 'data'>): Promise<Notification> {
+    const result = await db.run(
+      `INSERT INTO notifications (user_id, type, title, message, data, is_read, created_at)
+       VALUES (?, ?, ?, ?, ?, false, CURRENT_TIMESTAMP)`,
+      [
+        notification.userId,
+        notification.type,
+        notification.title,
+        notification.message,
+        notification.data !== undefined ? JSON.stringify(notification.data) : null
+      ]
+    );
+
+    const created = await this.findById(result.lastInsertRowid as number);
+    if (!created) throw new Error('Failed to create notification');
+
+    return created;
+  }
+
+  static async markRead(id: number, userId: number): Promise<Notification | null> {
+    await db.run(
+      `UPDATE notifications SET is_read = true, read_at = CURRENT_TIMESTAMP
+       WHERE id = ? AND user_id = ? AND is_read = false`,
+      [id, userId]
+    );
+
+    const notification = await this.findById(id);
+    return notification?.userId === userId ? notification : null;
+  }
+
+  static async markAllRead(userId: number): Promise<number> {
+    const result = await db.run(
+      `UPDATE notifications SET is_read = true, read_at = CURRENT_TIMESTAMP
+       WHERE user_id = ? AND is_read = false`,
+      [userId]
+    );
+
+    return result.changes || 0;
+  }
+}
@@ -0,0 +1,199 @@
+import { db, ILIKE } from '../database';
+import { projectSchema, projectUpdateSchema } from './schemas';
+import { TeamModel } from './team';
+import { AnalyticsService } from '../services/analytics';
+import { EXPORT_BATCH_SIZE } from '../services/import-export';
+import { Permissions } from '../services/permissions';
+import type {
+  CreateProjectRequest, Project, ProjectFilters, UpdateProjectRequest, User
+} from '../../../shared/types';
+
+// Maps the camelCase sort keys from ProjectFilters onto real columns so that
+// user input never reaches the ORDER BY clause directly
+const PROJECT_SORT_COLUMNS: Record<NonNullable<ProjectFilters['sortBy']>, string> = {
+  createdAt: 'p.created_at',
+  updatedAt: 'p.updated_at',
+  dueDate: 'p.due_date',
+  name: 'p.name'
+};
+
+export class ProjectModel {
+  private static toProject(row: any): Project {
+    return {
+      id: row.id,
+      name: row.name,
+      description: row.description,
+      teamId: row.team_id,
+      status: row.status,
+      startDate: row.start_date,
+      dueDate: row.due_date,
+      createdBy: row.created_by,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
+    };
+  }
+
+  static async findById(id: number): Promise<Project | null> {
+    const project = await db.get('SELECT * FROM projects WHERE id = ?', [id]);
+    if (!project) return null;
+
+    return this.toProject(project);
+  }
+
+  static async findAccessible(id: number, user: User): Promise<Project | null> {
+    const project = await this.findById(id);
+    if (!project) return null;
+
+    return await TeamModel.canAccess(project.teamId, user) ? project : null;
+  }
+
+  static async findMany(filters: ProjectFilters, user: User, page = 1, limit = 20) {
+    const offset = (page - 1) * limit;
+    let whereClause = 'WHERE 1=1';
+    const params: any[] = [];
+
+    // Non-admins only see projects belonging to their teams
+    if (user.role !== 'admin') {
+      whereClause += ' AND p.team_id IN (SELECT team_id FROM team_members WHERE user_id = ?)';
+      params.push(user.id);
+    }
+
+    if (filters.teamId) {
+      whereClause += ' AND p.team_id = ?';
+      params.push(filters.teamId);
+    }
+
+    if (filters.status) {
+      whereClause += ' AND p.status = ?';
+      params.push(filters.status);
+    }
+
+    if (filters.search) {
+      whereClause += ` AND (p.name ${ILIKE} ? OR p.description ${ILIKE} ?)`;
+      params.push(`%${filters.search}%`, `%${filters.search}%`);
+    }
+
+    const countResult = await db.get(`SELECT COUNT(*) as total FROM projects p ${whereClause}`, params);
+    const total = countResult?.total || 0;
+
+    // Own keys only, so ?sortBy=constructor cannot pick up an inherited property
+    const sortColumn = filters.sortBy && Object.hasOwn(PROJECT_SORT_COLUMNS, filters.sortBy)
+      ? PROJECT_SORT_COLUMNS[filters.sortBy]
+      : 'p.created_at';
+    const sortOrder = filters.sortOrder === 'asc' ? 'ASC' : 'DESC';
+
+    const projects = await db.all(
+      `SELECT p.* FROM projects p
+       ${whereClause}
+       ORDER BY ${sortColumn} ${sortOrder}, p.id ${sortOrder}
+       LIMIT ? OFFSET ?`,
+      [...params, limit, offset]
+    );
+
+    return {
+      projects: projects.map((row: any) => this.toProject(row)),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+        hasNextPage: page * limit < total,
+        hasPrevPage: page > 1
+      }
+    };
+  }
+
+  static async *iterate(filters: ProjectFilters, user: User, batchSize = EXPORT_BATCH_SIZE): AsyncGenerator<Project[]> {
+    for (let page = 1; ; page++) {
+      const result = await this.findMany(filters, user, page, batchSize);
+      if (result.projects.length > 0) yield result.projects;
+      if (!result.pagination.hasNextPage) return;
+    }
+  }
+
+  static async create(projectData: CreateProjectRequest, user: User): Promise<Project> {
+    const validatedData = projectSchema.parse(projectData);
+
+    await Permissions.assert(
+      Permissions.canManageProjects(user, validatedData.teamId),
+      'Only team managers can create projects'
+    );
+
+    const result = await db.run(
+      `INSERT INTO projects (name, description, team_id, status, start_date, due_date,
+                             created_by, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP)`,
+      [
+        validatedData.name,
+        validatedData.description || null,
+        validatedData.teamId,
+        validatedData.status || 'active',
+        validatedData.startDate || null,
+        validatedData.dueDate || null,
+        user.id
+      ]
+    );
+
+    const project = await this.findById(result.lastInsertRowid as number);
+    if (!project) throw new Error('Failed to create project');
+
+    await AnalyticsService.invalidate();
+
+    return project;
+  }
+
+  static async update(id: number, updates: UpdateProjectRequest): Promise<Project | null> {
+    const validatedData = projectUpdateSchema.parse(updates);
+
+    const updateFields = [];
+    const updateValues = [];
+
+    if (validatedData.name !== undefined) {
+      updateFields.push('name = ?');
+      updateValues.push(validatedData.name);
+    }
+
+    if (validatedData.description !== undefined) {
+      updateFields.push('description = ?');
+      updateValues.push(validatedData.description);
+    }
+
+    if (validatedData.status !== undefined) {
+      updateFields.push('status = ?');
+      updateValues.push(validatedData.status);
+    }
+
+    if (validatedData.startDate !== undefined) {
+      updateFields.push('start_date = ?');
+      updateValues.push(validatedData.startDate);
+    }
+
+    if (validatedData.dueDate !== undefined) {
+      updateFields.push('due_date = ?');
+      updateValues.push(validatedData.dueDate);
+    }
+
+    updateFields.push('updated_at = CURRENT_TIMESTAMP');
+    updateValues.push(id);
+
+    await db.run(
+      `UPDATE projects SET ${updateFields.join(', ')} WHERE id = ?`,
+      updateValues
+    );
+
+    await AnalyticsService.invalidate();
+
+    return await this.findById(id);
+  }
+
+  static async archive(id: number): Promise<Project | null> {
+    await db.run(
+      `UPDATE projects SET status = 'archived', updated_at = CURRENT_TIMESTAMP WHERE id = ?`,
+      [id]
+    );
+
+    await AnalyticsService.invalidate();
+
+    return await this.findById(id);
+  }
+}
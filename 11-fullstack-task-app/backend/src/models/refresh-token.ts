@@ -0,0 +1,96 @@
+import { createHash, randomBytes } from 'crypto';
+import { config } from '../config';
+import { db } from '../database';
+import { TokenRevocation } from '../middleware/auth';
+import { HttpError } from '../middleware/errors';
+import { UserModel } from './user';
+import type { User } from '../../../shared/types';
+
+// Refresh tokens are opaque random strings; only their SHA-256 hash is stored.
+// Each use rotates the token within its family, and presenting an already-rotated
+// token is treated as theft, revoking the whole family.
+export class RefreshTokenModel {
+  private static hash(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+
+  static async create(userId: number, familyId: string): Promise<string> {
+    const token = randomBytes(48).toString('base64url');
+    const expiresAt = new Date(Date.now() + config.refreshTokenTtl * 1000).toISOString();
+
+    await db.run(
+      `INSERT INTO refresh_tokens (user_id, token_hash, family_id, expires_at, created_at)
+       VALUES (?, ?, ?, ?, CURRENT_TIMESTAMP)`,
+      [userId, this.hash(token), familyId, expiresAt]
+    );
+
+    return token;
+  }
+
+  static async findByToken(token: string) {
+    return await db.get('SELECT * FROM refresh_tokens WHERE token_hash = ?', [this.hash(token)]);
+  }
+
+  static async revoke(id: number): Promise<void> {
+    await db.run(
+      'UPDATE refresh_tokens SET revoked_at = CURRENT_TIMESTAMP WHERE id = ? AND revoked_at IS NULL',
+      [id]
+    );
+  }
+
+  static async revokeFamily(familyId: string): Promise<void> {
+    await db.run(
+      'UPDATE refresh_tokens SET revoked_at = CURRENT_TIMESTAMP WHERE family_id = ? AND revoked_at IS NULL',
+      [familyId]
+    );
+    await TokenRevocation.revokeFamily(familyId);
+  }
+
+  // Ends every session of the user, e.g. after a password change
+  static async revokeAllForUser(userId: number): Promise<void> {
+    const families = await db.all(
+      'SELECT DISTINCT family_id FROM refresh_tokens WHERE user_id = ? AND revoked_at IS NULL',
+      [userId]
+    );
+
+    for (const row of families) {
+      await this.revokeFamily(row.family_id);
+    }
+  }
+
+  // Returns the user and family for a valid token, consuming it in the process
+  static async consume(token: string): Promise<{ user: User; familyId: string }> {
+    const stored = await this.findByToken(token);
+    if (!stored) {
+      throw new HttpError(401, 'INVALID_REFRESH_TOKEN', 'Invalid refresh token');
+    }
+
+    if (stored.revoked_at) {
+      await this.revokeFamily(stored.family_id);
+      throw new HttpError(401, 'REFRESH_TOKEN_REUSED', 'Refresh token has already been used');
+    }
+
+    if (new Date(stored.expires_at).getTime() <= Date.now()) {
+      await this.revoke(stored.id);
+      throw new HttpError(401, 'REFRESH_TOKEN_EXPIRED', 'Refresh token has expired');
+    }
+
+    const user = await UserModel.findById(stored.user_id);
+    if (!user || !user.isActive) {
+      await this.revokeFamily(stored.family_id);
+      throw new HttpError(401, 'INVALID_REFRESH_TOKEN', 'Invalid refresh token');
+    }
+
+    // Conditional update so two concurrent refreshes cannot both succeed
+    const result = await db.run(
+      'UPDATE refresh_tokens SET revoked_at = CURRENT_TIMESTAMP WHERE id = ? AND revoked_at IS NULL',
+      [stored.id]
+    );
+    if ((result.changes || 0) === 0) {
+      await this.revokeFamily(stored.family_id);
+      throw new HttpError(401, 'REFRESH_TOKEN_REUSED', 'Refresh token has already been used');
+    }
+
+    return { user, familyId: stored.family_id };
+  }
+}
@@ -0,0 +1,186 @@
+import { z } from 'zod';
+
+// Validation schemas
+export const refreshSchema = z.object({
+  refreshToken: z.string().min(1)
+});
+
+// Clients send a null refresh token when they no longer hold one
+export const logoutSchema = z.object({
+  refreshToken: z.string().min(1).nullish()
+});
+
+const passwordSchema = z.string().min(8).max(128);
+
+export const forgotPasswordSchema = z.object({
+  email: z.string().email()
+});
+
+export const resetPasswordSchema = z.object({
+  token: z.string().min(1),
+  password: passwordSchema,
+  confirmPassword: z.string()
+}).refine(data => data.password === data.confirmPassword, {
+  message: 'Passwords do not match',
+  path: ['confirmPassword']
+});
+
+export const changePasswordSchema = z.object({
+  currentPassword: z.string().min(1),
+  newPassword: passwordSchema,
+  confirmPassword: z.string()
+}).refine(data => data.newPassword === data.confirmPassword, {
+  message: 'Passwords do not match',
+  path: ['confirmPassword']
+});
+
+export const verifyEmailSchema = z.object({
+  token: z.string().min(1)
+});
+
+export const taskSchema = z.object({
+  title: z.string().min(1).max(255),
+  description: z.string().optional(),
+  projectId: z.number().positive(),
+  assignedTo: z.number().positive().optional(),
+  status: z.enum(['todo', 'in_progress', 'review', 'completed']).optional(),
+  priority: z.enum(['low', 'medium', 'high', 'urgent']).optional(),
+  tags: z.array(z.string()).optional(),
+  dueDate: z.string().datetime().optional(),
+  estimatedHours: z.number().positive().optional()
+});
+
+export const recurrenceSchema = z.object({
+  frequency: z.enum(['daily', 'weekly', 'monthly']),
+  interval: z.number().int().min(1).max(365).default(1),
+  weekdays: z.array(z.number().int().min(0).max(6)).min(1).max(7).optional(),
+  monthDay: z.number().int().min(1).max(31).optional(),
+  endsAt: z.string().datetime().optional(),
+  count: z.number().int().min(1).max(1000).optional()
+}).refine(data => data.frequency === 'weekly' || !data.weekdays, {
+  message: 'weekdays only apply to weekly schedules',
+  path: ['weekdays']
+}).refine(data => data.frequency === 'monthly' || !data.monthDay, {
+  message: 'monthDay only applies to monthly schedules',
+  path: ['monthDay']
+});
+
+export const createTaskSchema = taskSchema.extend({
+  recurrence: recurrenceSchema.optional()
+});
+
+export const updateTaskSchema = taskSchema.partial();
+
+export const seriesUpdateSchema = taskSchema.pick({
+  title: true,
+  description: true,
+  assignedTo: true,
+  priority: true,
+  tags: true,
+  estimatedHours: true
+}).partial().refine(changes => Object.keys(changes).length > 0, {
+  message: 'At least one change is required'
+});
+
+// Derived from taskSchema so the whole batch is validated once, up front, by the
+// same rules TaskModel.update applies to each task
+export const bulkTaskChangesSchema = taskSchema.pick({
+  status: true,
+  priority: true,
+  assignedTo: true,
+  projectId: true
+}).partial().extend({
+  addTags: taskSchema.shape.tags,
+  removeTags: taskSchema.shape.tags
+});
+
+export const bulkTaskSchema = z.object({
+  taskIds: z.array(z.number().int().positive()).min(1).max(200),
+  action: z.enum(['update', 'delete']),
+  changes: bulkTaskChangesSchema.optional()
+}).refine(
+  data => data.action === 'delete' || Object.values(data.changes || {}).some(value => value !== undefined),
+  { message: 'Bulk updates need at least one change', path: ['changes'] }
+);
+
+export const projectSchema = z.object({
+  name: z.string().min(1).max(255),
+  description: z.string().optional(),
+  teamId: z.number().positive(),
+  status: z.enum(['active', 'completed', 'archived']).optional(),
+  startDate: z.string().datetime().optional(),
+  dueDate: z.string().datetime().optional()
+});
+
+export const projectUpdateSchema = projectSchema.omit({ teamId: true }).partial();
+
+export const teamSchema = z.object({
+  name: z.string().min(1).max(255),
+  description: z.string().optional()
+});
+
+export const teamMemberSchema = z.object({
+  email: z.string().email(),
+  role: z.enum(['admin', 'member']).optional()
+});
+
+export const teamMemberRoleSchema = z.object({
+  role: z.enum(['owner', 'admin', 'member'])
+});
+
+export const moveTaskSchema = z.object({
+  status: z.enum(['todo', 'in_progress', 'review', 'completed']),
+  afterId: z.number().int().positive().optional(),
+  beforeId: z.number().int().positive().optional()
+});
+
+export const dependencySchema = z.object({
+  taskId: z.number().positive(),
+  type: z.enum(['blocks', 'blocked_by'])
+});
+
+export const commentSchema = z.object({
+  content: z.string().trim().min(1).max(5000)
+});
+
+export const timeEntrySchema = z.object({
+  startedAt: z.string().datetime(),
+  endedAt: z.string().datetime().optional(),
+  durationMinutes: z.number().positive().max(24 * 60).optional(),
+  note: z.string().max(1000).optional()
+}).refine(
+  data => data.endedAt ? Date.parse(data.endedAt) > Date.parse(data.startedAt) : data.durationMinutes !== undefined,
+  { message: 'Provide an endedAt after startedAt, or a durationMinutes', path: ['endedAt'] }
+);
+
+export const timeEntryUpdateSchema = z.object({
+  startedAt: z.string().datetime().optional(),
+  endedAt: z.string().datetime().optional(),
+  note: z.string().max(1000).optional()
+});
+
+export const timerSchema = z.object({
+  note: z.string().max(1000).optional()
+});
+
+export const taskImportSchema = z.object({
+  csv: z.string().min(1),
+  mapping: z.record(z.string()).optional(),
+  projectId: z.number().positive().optional(),
+  dryRun: z.boolean().default(true)
+});
+
+const WEBHOOK_EVENT_TYPES = [
+  'task_created', 'task_updated', 'task_deleted', 'task_moved', 'tasks_bulk_updated', 'comment_added',
+  'project_created', 'project_updated', 'project_archived'
+] as const;
+
+export const webhookSchema = z.object({
+  teamId: z.number().positive(),
+  url: z.string().url().max(2048),
+  eventTypes: z.array(z.enum(WEBHOOK_EVENT_TYPES)).min(1),
+  secret: z.string().min(16).max(256).optional(),
+  isActive: z.boolean().optional()
+});
+
+export const webhookUpdateSchema = webhookSchema.omit({ teamId: true }).partial();
@@ -0,0 +1,177 @@
+import { db, dialect } from '../database';
+import { toFtsQuery } from '../utils/fts';
+import type { SearchHit, SearchResults, User } from '../../../shared/types';
+
+// Full-text search
+// PostgreSQL ranks against the generated tsvector columns, SQLite (local dev)
+// against the FTS5 tables. Both mark matches with control characters that are
+// turned into <mark> tags only after the text around them has been HTML-escaped.
+const HIGHLIGHT_START = '\u0002';
+const HIGHLIGHT_END = '\u0003';
+const HEADLINE_TITLE_OPTIONS = `StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_END}, HighlightAll=true`;
+const HEADLINE_SNIPPET_OPTIONS = `StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_END}, MaxFragments=2, MinWords=5, MaxWords=20`;
+
+export const SEARCH_TYPES: SearchHit['type'][] = ['task', 'comment', 'project'];
+
+export class SearchModel {
+  private static toHit(type: SearchHit['type'], row: any): SearchHit {
+    return {
+      type,
+      id: row.id,
+      title: this.renderHighlight(row.title || ''),
+      snippet: this.renderHighlight(row.snippet || ''),
+      rank: Number(row.rank) || 0,
+      taskId: row.task_id ?? undefined,
+      projectId: row.project_id ?? undefined
+    };
+  }
+
+  private static renderHighlight(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replaceAll(HIGHLIGHT_START, '<mark>')
+      .replaceAll(HIGHLIGHT_END, '</mark>');
+  }
+
+  private static accessClause(user: User, teamColumn: string): { clause: string; params: any[] } {
+    if (user.role === 'admin') return { clause: '', params: [] };
+
+    return {
+      clause: ` AND ${teamColumn} IN (SELECT team_id FROM team_members WHERE user_id = ?)`,
+      params: [user.id]
+    };
+  }
+
+  private static async searchPostgres(type: SearchHit['type'], query: string, user: User, limit: number): Promise<any[]> {
+    switch (type) {
+      case 'task': {
+        const access = this.accessClause(user, 'p.team_id');
+        return db.all(
+          `SELECT t.id, t.id as task_id, t.project_id,
+                  ts_headline('english', t.title, q, ?) as title,
+                  ts_headline('english', coalesce(t.description, ''), q, ?) as snippet,
+                  ts_rank(t.search_vector, q) as rank
+           FROM tasks t
+           JOIN projects p ON t.project_id = p.id
+           CROSS JOIN websearch_to_tsquery('english', ?) q
+           WHERE t.search_vector @@ q${access.clause}
+           ORDER BY rank DESC, t.id DESC
+           LIMIT ?`,
+          [HEADLINE_TITLE_OPTIONS, HEADLINE_SNIPPET_OPTIONS, query, ...access.params, limit]
+        );
+      }
+
+      case 'comment': {
+        const access = this.accessClause(user, 'p.team_id');
+        return db.all(
+          `SELECT c.id, c.task_id, t.project_id, t.title,
+                  ts_headline('english', c.content, q, ?) as snippet,
+                  ts_rank(c.search_vector, q) as rank
+           FROM comments c
+           JOIN tasks t ON c.task_id = t.id
+           JOIN projects p ON t.project_id = p.id
+           CROSS JOIN websearch_to_tsquery('english', ?) q
+           WHERE c.search_vector @@ q${access.clause}
+           ORDER BY rank DESC, c.id DESC
+           LIMIT ?`,
+          [HEADLINE_SNIPPET_OPTIONS, query, ...access.params, limit]
+        );
+      }
+
+      case 'project': {
+        const access = this.accessClause(user, 'p.team_id');
+        return db.all(
+          `SELECT p.id, p.id as project_id,
+                  ts_headline('english', p.name, q, ?) as title,
+                  ts_headline('english', coalesce(p.description, ''), q, ?) as snippet,
+                  ts_rank(p.search_vector, q) as rank
+           FROM projects p
+           CROSS JOIN websearch_to_tsquery('english', ?) q
+           WHERE p.search_vector @@ q${access.clause}
+           ORDER BY rank DESC, p.id DESC
+           LIMIT ?`,
+          [HEADLINE_TITLE_OPTIONS, HEADLINE_SNIPPET_OPTIONS, query, ...access.params, limit]
+        );
+      }
+    }
+  }
+
+  // bm25() returns lower-is-better scores, so they are negated into a rank;
+  // the column weights mirror the A/B weights used on PostgreSQL
+  private static async searchSqlite(type: SearchHit['type'], query: string, user: User, limit: number): Promise<any[]> {
+    switch (type) {
+      case 'task': {
+        const access = this.accessClause(user, 'p.team_id');
+        return db.all(
+          `SELECT t.id, t.id as task_id, t.project_id,
+                  highlight(tasks_fts, 0, char(2), char(3)) as title,
+                  snippet(tasks_fts, 1, char(2), char(3), '…', 20) as snippet,
+                  -bm25(tasks_fts, 10.0, 5.0, 5.0) as rank
+           FROM tasks_fts
+           JOIN tasks t ON t.id = tasks_fts.rowid
+           JOIN projects p ON t.project_id = p.id
+           WHERE tasks_fts MATCH ?${access.clause}
+           ORDER BY rank DESC, t.id DESC
+           LIMIT ?`,
+          [query, ...access.params, limit]
+        );
+      }
+
+      case 'comment': {
+        const access = this.accessClause(user, 'p.team_id');
+        return db.all(
+          `SELECT c.id, c.task_id, t.project_id, t.title,
+                  snippet(comments_fts, 0, char(2), char(3), '…', 20) as snippet,
+                  -bm25(comments_fts) as rank
+           FROM comments_fts
+           JOIN comments c ON c.id = comments_fts.rowid
+           JOIN tasks t ON c.task_id = t.id
+           JOIN projects p ON t.project_id = p.id
+           WHERE comments_fts MATCH ?${access.clause}
+           ORDER BY rank DESC, c.id DESC
+           LIMIT ?`,
+          [query, ...access.params, limit]
+        );
+      }
+
+      case 'project': {
+        const access = this.accessClause(user, 'p.team_id');
+        return db.all(
+          `SELECT p.id, p.id as project_id,
+                  highlight(projects_fts, 0, char(2), char(3)) as title,
+                  snippet(projects_fts, 1, char(2), char(3), '…', 20) as snippet,
+                  -bm25(projects_fts, 10.0, 5.0) as rank
+           FROM projects_fts
+           JOIN projects p ON p.id = projects_fts.rowid
+           WHERE projects_fts MATCH ?${access.clause}
+           ORDER BY rank DESC, p.id DESC
+           LIMIT ?`,
+          [query, ...access.params, limit]
+        );
+      }
+    }
+  }
+
+  static async search(query: string, user: User, types: SearchHit['type'][], limit = 10): Promise<SearchResults> {
+    const results: SearchResults = { query, tasks: [], comments: [], projects: [] };
+
+    const ftsQuery = dialect === 'sqlite' ? toFtsQuery(query) : query;
+    if (!ftsQuery) return results;
+
+    for (const type of types) {
+      const rows = dialect === 'sqlite'
+        ? await this.searchSqlite(type, ftsQuery, user, limit)
+        : await this.searchPostgres(type, ftsQuery, user, limit);
+
+      const hits = rows.map((row: any) => this.toHit(type, row));
+      if (type === 'task') results.tasks = hits;
+      if (type === 'comment') results.comments = hits;
+      if (type === 'project') results.projects = hits;
+    }
+
+    return results;
+  }
+}
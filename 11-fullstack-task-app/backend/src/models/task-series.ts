@@ -0,0 +1,131 @@
+import { db } from '../database';
+import { HttpError } from '../middleware/errors';
+import { nextOccurrence } from '../utils/recurrence';
+import type { RecurrenceRule, Task, TaskSeries, User } from '../../../shared/types';
+
+export class TaskSeriesModel {
+  private static toSeries(row: any): TaskSeries {
+    return {
+      id: row.id,
+      projectId: row.project_id,
+      frequency: row.frequency,
+      interval: row.interval_count,
+      weekdays: row.weekdays ? JSON.parse(row.weekdays) : undefined,
+      monthDay: row.month_day ?? undefined,
+      endsAt: row.ends_at ?? undefined,
+      count: row.max_occurrences ?? undefined,
+      anchorAt: row.anchor_at,
+      occurrenceCount: row.occurrence_count,
+      nextDueAt: row.next_due_at ?? undefined,
+      lastTaskId: row.last_task_id ?? undefined,
+      isActive: !!row.is_active,
+      createdBy: row.created_by,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
+    };
+  }
+
+  static async findById(id: number): Promise<TaskSeries | null> {
+    const series = await db.get('SELECT * FROM task_series WHERE id = ?', [id]);
+    return series ? this.toSeries(series) : null;
+  }
+
+  // Active series whose next occurrence is due on or before the given time
+  static async findDue(before: string): Promise<TaskSeries[]> {
+    const rows = await db.all(
+      `SELECT * FROM task_series
+       WHERE is_active = true AND next_due_at IS NOT NULL AND next_due_at <= ?
+       ORDER BY next_due_at`,
+      [before]
+    );
+
+    return rows.map((row: any) => this.toSeries(row));
+  }
+
+  // Turns the task into the first occurrence; its due date anchors the schedule
+  static async create(task: Task, rule: RecurrenceRule, user: User): Promise<TaskSeries> {
+    if (!task.dueDate) {
+      throw new HttpError(400, 'DUE_DATE_REQUIRED', 'A recurring task needs a due date');
+    }
+
+    const anchor = new Date(task.dueDate);
+    const next = nextOccurrence(rule, anchor, anchor, 1);
+
+    const result = await db.run(
+      `INSERT INTO task_series (project_id, frequency, interval_count, weekdays, month_day, anchor_at, ends_at,
+                                max_occurrences, occurrence_count, next_due_at, last_task_id, is_active,
+                                created_by, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, 1, ?, ?, true, ?, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP)`,
+      [
+        task.projectId,
+        rule.frequency,
+        rule.interval,
+        rule.weekdays ? JSON.stringify(rule.weekdays) : null,
+        rule.monthDay ?? null,
+        anchor.toISOString(),
+        rule.endsAt ?? null,
+        rule.count ?? null,
+        next?.toISOString() ?? null,
+        task.id,
+        user.id
+      ]
+    );
+
+    const seriesId = result.lastInsertRowid as number;
+    await db.run('UPDATE tasks SET series_id = ? WHERE id = ?', [seriesId, task.id]);
+
+    const series = await this.findById(seriesId);
+    if (!series) throw new Error('Failed to create task series');
+
+    return series;
+  }
+
+  // A new schedule is anchored at the latest occurrence and (re)activates the series
+  static async updateRule(series: TaskSeries, rule: RecurrenceRule, latestDueAt: string): Promise<TaskSeries | null> {
+    const anchor = new Date(latestDueAt);
+    const next = nextOccurrence(rule, anchor, anchor, series.occurrenceCount);
+
+    await db.run(
+      `UPDATE task_series SET frequency = ?, interval_count = ?, weekdays = ?, month_day = ?, anchor_at = ?,
+                              ends_at = ?, max_occurrences = ?, next_due_at = ?, is_active = true,
+                              updated_at = CURRENT_TIMESTAMP
+       WHERE id = ?`,
+      [
+        rule.frequency,
+        rule.interval,
+        rule.weekdays ? JSON.stringify(rule.weekdays) : null,
+        rule.monthDay ?? null,
+        anchor.toISOString(),
+        rule.endsAt ?? null,
+        rule.count ?? null,
+        next?.toISOString() ?? null,
+        series.id
+      ]
+    );
+
+    return await this.findById(series.id);
+  }
+
+  // Compare-and-swap on next_due_at: only one caller can claim each occurrence
+  static async advance(series: TaskSeries, taskId: number, nextDueAt: string | null): Promise<boolean> {
+    const result = await db.run(
+      `UPDATE task_series SET last_task_id = ?, occurrence_count = occurrence_count + 1, next_due_at = ?,
+                              updated_at = CURRENT_TIMESTAMP
+       WHERE id = ? AND is_active = true AND next_due_at = ?`,
+      [taskId, nextDueAt, series.id, series.nextDueAt]
+    );
+
+    return (result.changes || 0) > 0;
+  }
+
+  // Existing occurrences are kept; no new ones are generated
+  static async stop(id: number): Promise<boolean> {
+    const result = await db.run(
+      `UPDATE task_series SET is_active = false, next_due_at = NULL, updated_at = CURRENT_TIMESTAMP
+       WHERE id = ?`,
+      [id]
+    );
+
+    return (result.changes || 0) > 0;
+  }
+}
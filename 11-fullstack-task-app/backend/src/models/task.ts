@@ -0,0 +1,707 @@
+import { z } from 'zod';
+import { db, dialect, ILIKE, withTransaction } from '../database';
+import { HttpError } from '../middleware/errors';
+import { ProjectModel } from './project';
+import { moveTaskSchema, taskSchema, updateTaskSchema } from './schemas';
+import { TeamModel } from './team';
+import { UserModel } from './user';
+import { AnalyticsService } from '../services/analytics';
+import { EXPORT_BATCH_SIZE } from '../services/import-export';
+import { decodeCursor, encodeCursor } from '../utils/cursor';
+import { wouldCreateCycle } from '../utils/dependency-graph';
+import { TaskETag } from '../utils/task-etag';
+import { type ColumnSlot, comesBefore, POSITION_STEP, positionBetween, respace } from '../utils/task-position';
+import type {
+  MoveTaskRequest, Task, TaskFilters, TaskPosition, UpdateTaskRequest, User
+} from '../../../shared/types';
+
+// Maps the camelCase sort keys from TaskFilters onto SQL expressions. The
+// expressions are never null so they can double as keyset pagination keys;
+// tasks without a due date sort after every dated task.
+const TASK_SORT_EXPRESSIONS: Record<NonNullable<TaskFilters['sortBy']>, string> = {
+  createdAt: 't.created_at',
+  updatedAt: 't.updated_at',
+  dueDate: "COALESCE(t.due_date, '9999-12-31')",
+  priority: "CASE t.priority WHEN 'urgent' THEN 4 WHEN 'high' THEN 3 WHEN 'medium' THEN 2 ELSE 1 END",
+  position: 't.position'
+};
+
+// Kanban positions: see utils/task-position. Concurrent appends may read the
+// same MAX and tie; columns are ordered by (position, id) so that stays harmless.
+
+// SET clause for completed_at on a status change; binds the new status. It is
+// stamped on the way into completed, kept while the task stays there and cleared
+// on the way out. Right-hand sides of SET see the row as it was before the update.
+const COMPLETED_AT_SQL = `completed_at = CASE
+  WHEN ? <> 'completed' THEN NULL
+  WHEN tasks.status = 'completed' THEN tasks.completed_at
+  ELSE CURRENT_TIMESTAMP
+END`;
+
+// Bottom of a (project, status) column; binds the project id and status
+const APPEND_POSITION_SQL =
+  `(SELECT COALESCE(MAX(o.position), 0) + ${POSITION_STEP} FROM tasks o WHERE o.project_id = ? AND o.status = ?)`;
+
+interface TaskCursor {
+  sortBy: NonNullable<TaskFilters['sortBy']>;
+  sortOrder: NonNullable<TaskFilters['sortOrder']>;
+  value: any;
+  id: number;
+}
+
+// Escapes LIKE wildcards so user input matches literally (pair with ESCAPE '\')
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, '\\$&');
+}
+
+export class TaskModel {
+  private static toTask(task: any): Task {
+    return {
+      id: task.id,
+      title: task.title,
+      description: task.description,
+      projectId: task.project_id,
+      assignedTo: task.assigned_to,
+      createdById: task.created_by_id,
+      status: task.status,
+      priority: task.priority,
+      tags: task.tags ? JSON.parse(task.tags) : [],
+      dueDate: task.due_date,
+      estimatedHours: task.estimated_hours,
+      actualHours: task.actual_hours,
+      createdAt: task.created_at,
+      updatedAt: task.updated_at,
+      completedAt: task.completed_at,
+      version: task.version,
+      seriesId: task.series_id ?? undefined,
+      position: Number(task.position)
+    };
+  }
+
+  static async findById(id: number, options: { includeDependencies?: boolean } = {}): Promise<Task | null> {
+    const task = await db.get(
+      `SELECT t.*, p.name as project_name, p.team_id,
+              u.name as assigned_name, u.avatar as assigned_avatar,
+              c.name as created_by_name
+       FROM tasks t
+       LEFT JOIN projects p ON t.project_id = p.id
+       LEFT JOIN users u ON t.assigned_to = u.id
+       LEFT JOIN users c ON t.created_by_id = c.id
+       WHERE t.id = ?`,
+      [id]
+    );
+
+    if (!task) return null;
+
+    const result = this.toTask(task);
+
+    // One level of the dependency graph: direct blockers and direct dependents
+    if (options.includeDependencies) {
+      result.dependencies = await this.getDependencies(id);
+      result.dependents = await this.getDependents(id);
+      result.isBlocked = result.dependencies.some(blocker => blocker.status !== 'completed');
+    }
+
+    return result;
+  }
+
+  // Tasks that block the given task
+  static async getDependencies(id: number): Promise<Task[]> {
+    const rows = await db.all(
+      `SELECT t.* FROM task_dependencies d
+       JOIN tasks t ON d.blocker_id = t.id
+       WHERE d.blocked_id = ?
+       ORDER BY t.id`,
+      [id]
+    );
+
+    return rows.map((row: any) => this.toTask(row));
+  }
+
+  // Tasks that the given task blocks
+  static async getDependents(id: number): Promise<Task[]> {
+    const rows = await db.all(
+      `SELECT t.* FROM task_dependencies d
+       JOIN tasks t ON d.blocked_id = t.id
+       WHERE d.blocker_id = ?
+       ORDER BY t.id`,
+      [id]
+    );
+
+    return rows.map((row: any) => this.toTask(row));
+  }
+
+  static async countOpenBlockers(id: number): Promise<number> {
+    const result = await db.get(
+      `SELECT COUNT(*) as total FROM task_dependencies d
+       JOIN tasks t ON d.blocker_id = t.id
+       WHERE d.blocked_id = ? AND t.status != 'completed'`,
+      [id]
+    );
+
+    return result?.total || 0;
+  }
+
+  // The cycle check and the insert share one transaction, and on Postgres the
+  // table lock keeps two concurrent links from each passing the check and
+  // together closing a loop
+  static async addDependency(blockerId: number, blockedId: number): Promise<void> {
+    await withTransaction(async () => {
+      if (dialect === 'postgres') {
+        await db.run('LOCK TABLE task_dependencies IN SHARE ROW EXCLUSIVE MODE');
+      }
+
+      const existing = await db.get(
+        'SELECT 1 as linked FROM task_dependencies WHERE blocker_id = ? AND blocked_id = ?',
+        [blockerId, blockedId]
+      );
+      if (existing) {
+        throw new HttpError(409, 'DEPENDENCY_EXISTS', 'These tasks are already linked');
+      }
+
+      const cyclic = await wouldCreateCycle(blockerId, blockedId, async blockerIds => {
+        const rows = await db.all(
+          `SELECT blocked_id FROM task_dependencies
+           WHERE blocker_id IN (${blockerIds.map(() => '?').join(', ')})`,
+          blockerIds
+        );
+        return rows.map((row: any) => row.blocked_id);
+      });
+
+      if (cyclic) {
+        throw new HttpError(409, 'DEPENDENCY_CYCLE', 'This dependency would create a cycle');
+      }
+
+      await db.run(
+        `INSERT INTO task_dependencies (blocker_id, blocked_id, created_at)
+         VALUES (?, ?, CURRENT_TIMESTAMP)`,
+        [blockerId, blockedId]
+      );
+    });
+  }
+
+  static async removeDependency(blockerId: number, blockedId: number): Promise<boolean> {
+    const result = await db.run(
+      'DELETE FROM task_dependencies WHERE blocker_id = ? AND blocked_id = ?',
+      [blockerId, blockedId]
+    );
+
+    return (result.changes || 0) > 0;
+  }
+
+  // Occurrences of a recurring task, oldest first
+  static async findBySeries(seriesId: number): Promise<Task[]> {
+    const rows = await db.all(
+      'SELECT * FROM tasks WHERE series_id = ? ORDER BY due_date, id',
+      [seriesId]
+    );
+
+    return rows.map((row: any) => this.toTask(row));
+  }
+
+  static async findAccessible(id: number, user: User): Promise<Task | null> {
+    const task = await this.findById(id);
+    if (!task) return null;
+
+    return await ProjectModel.findAccessible(task.projectId, user) ? task : null;
+  }
+
+  static async findMany(filters: TaskFilters, user: User, page = 1, limit = 20) {
+    let whereClause = 'WHERE 1=1';
+    const params: any[] = [];
+
+    // Non-admins only see tasks in projects owned by their teams
+    if (user.role !== 'admin') {
+      whereClause += ` AND t.project_id IN (
+        SELECT id FROM projects WHERE team_id IN (SELECT team_id FROM team_members WHERE user_id = ?)
+      )`;
+      params.push(user.id);
+    }
+
+    if (filters.projectId) {
+      whereClause += ' AND t.project_id = ?';
+      params.push(filters.projectId);
+    }
+
+    if (filters.assignedTo) {
+      whereClause += ' AND t.assigned_to = ?';
+      params.push(filters.assignedTo);
+    }
+
+    if (filters.status) {
+      whereClause += ' AND t.status = ?';
+      params.push(filters.status);
+    }
+
+    if (filters.priority) {
+      whereClause += ' AND t.priority = ?';
+      params.push(filters.priority);
+    }
+
+    // Tags are stored as a JSON array, so each tag is matched together with its
+    // quotes to keep "api" from also matching "api-docs"
+    if (filters.tags && filters.tags.length > 0) {
+      const joiner = filters.tagMatch === 'all' ? ' AND ' : ' OR ';
+      whereClause += ` AND (${filters.tags.map(() => `t.tags LIKE ? ESCAPE '\\'`).join(joiner)})`;
+      params.push(...filters.tags.map(tag => `%${escapeLike(JSON.stringify(tag))}%`));
+    }
+
+    if (filters.dueDateRange?.start) {
+      whereClause += ' AND t.due_date >= ?';
+      params.push(filters.dueDateRange.start);
+    }
+
+    if (filters.dueDateRange?.end) {
+      whereClause += ' AND t.due_date <= ?';
+      params.push(filters.dueDateRange.end);
+    }
+
+    if (filters.search) {
+      whereClause += ` AND (t.title ${ILIKE} ? OR t.description ${ILIKE} ?)`;
+      params.push(`%${filters.search}%`, `%${filters.search}%`);
+    }
+
+    // Get total count
+    const countQuery = `SELECT COUNT(*) as total FROM tasks t ${whereClause}`;
+    const countResult = await db.get(countQuery, params);
+    const total = countResult?.total || 0;
+
+    const sortBy = filters.sortBy && Object.hasOwn(TASK_SORT_EXPRESSIONS, filters.sortBy) ? filters.sortBy : 'createdAt';
+    const sortExpression = TASK_SORT_EXPRESSIONS[sortBy];
+    const sortOrder = filters.sortOrder === 'asc' ? 'asc' : 'desc';
+    const comparator = sortOrder === 'asc' ? '>' : '<';
+
+    // Keyset pagination continues strictly after the last row of the previous page,
+    // with the id as tie-breaker, so inserts and deletes never shift the window
+    let pageClause = whereClause;
+    const pageParams = [...params];
+    let offset = (page - 1) * limit;
+
+    if (filters.cursor) {
+      const cursor = decodeCursor<TaskCursor>(
+        filters.cursor,
+        cursor => typeof cursor.id === 'number' && Object.hasOwn(TASK_SORT_EXPRESSIONS, cursor.sortBy)
+      );
+      if (!cursor) {
+        throw new HttpError(400, 'INVALID_CURSOR', 'Invalid pagination cursor');
+      }
+      if (cursor.sortBy !== sortBy || cursor.sortOrder !== sortOrder) {
+        throw new HttpError(400, 'INVALID_CURSOR', 'Cursor was issued for a different sort order');
+      }
+
+      pageClause += ` AND (${sortExpression} ${comparator} ? OR (${sortExpression} = ? AND t.id ${comparator} ?))`;
+      pageParams.push(cursor.value, cursor.value, cursor.id);
+      offset = 0;
+    }
+
+    // Fetch one extra row to know whether another page follows. On Postgres the
+    // sort value is carried as text: a timestamp read back through a JS Date
+    // would lose its microseconds and make the next page repeat rows.
+    const sortValue = dialect === 'postgres' ? `CAST(${sortExpression} AS TEXT)` : sortExpression;
+    const tasksQuery = `
+      SELECT t.*, ${sortValue} as sort_value
+      FROM tasks t
+      ${pageClause}
+      ORDER BY ${sortExpression} ${sortOrder.toUpperCase()}, t.id ${sortOrder.toUpperCase()}
+      LIMIT ? OFFSET ?
+    `;
+
+    const rows = await db.all(tasksQuery, [...pageParams, limit + 1, offset]);
+    const tasks = rows.slice(0, limit);
+    const lastRow = tasks[tasks.length - 1];
+    const hasNextPage = rows.length > limit;
+
+    return {
+      tasks: tasks.map((row: any) => this.toTask(row)),
+      pagination: {
+        page: filters.cursor ? 1 : page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+        hasNextPage,
+        hasPrevPage: !filters.cursor && page > 1,
+        nextCursor: hasNextPage
+          ? encodeCursor({ sortBy, sortOrder, value: lastRow.sort_value, id: lastRow.id } satisfies TaskCursor)
+          : undefined
+      }
+    };
+  }
+
+  // Walks every matching task one keyset page at a time
+  static async *iterate(filters: TaskFilters, user: User, batchSize = EXPORT_BATCH_SIZE): AsyncGenerator<Task[]> {
+    let cursor = filters.cursor;
+
+    do {
+      const result = await this.findMany({ ...filters, ...(cursor && { cursor }) }, user, 1, batchSize);
+      if (result.tasks.length > 0) yield result.tasks;
+      cursor = result.pagination.nextCursor;
+    } while (cursor);
+  }
+
+  static async assertProjectAccess(projectId: number, user: User): Promise<void> {
+    const project = await ProjectModel.findById(projectId);
+    if (!project) {
+      throw new HttpError(400, 'INVALID_PROJECT', 'Project does not exist');
+    }
+
+    if (!(await TeamModel.canAccess(project.teamId, user))) {
+      throw new HttpError(403, 'FORBIDDEN', 'You do not have access to this project');
+    }
+  }
+
+  // Tasks can only be assigned to active members of the project's team, who
+  // can open the project they are notified about
+  static async assertAssignable(projectId: number, assigneeId: number): Promise<void> {
+    const project = await ProjectModel.findById(projectId);
+    const assignee = await UserModel.findById(assigneeId);
+    const isMember = !!project && !!assignee?.isActive && !!(await TeamModel.getMembership(project.teamId, assigneeId));
+
+    if (!isMember) {
+      throw new HttpError(400, 'INVALID_ASSIGNEE', "assignedTo is not a member of the project's team");
+    }
+  }
+
+  // Takes anything shaped like the schema's input, as it validates the data itself
+  static async create(taskData: z.input<typeof taskSchema>, user: User): Promise<Task> {
+    const validatedData = taskSchema.parse(taskData);
+
+    await this.assertProjectAccess(validatedData.projectId, user);
+    if (validatedData.assignedTo !== undefined) {
+      await this.assertAssignable(validatedData.projectId, validatedData.assignedTo);
+    }
+
+    const status = validatedData.status || 'todo';
+
+    const result = await db.run(
+      `INSERT INTO tasks (title, description, project_id, assigned_to, created_by_id,
+                          status, priority, tags, due_date, estimated_hours, position,
+                          created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ${APPEND_POSITION_SQL}, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP)`,
+      [
+        validatedData.title,
+        validatedData.description || null,
+        validatedData.projectId,
+        validatedData.assignedTo || null,
+        user.id,
+        status,
+        validatedData.priority || 'medium',
+        JSON.stringify(validatedData.tags || []),
+        validatedData.dueDate || null,
+        validatedData.estimatedHours || null,
+        validatedData.projectId,
+        status
+      ]
+    );
+
+    const task = await this.findById(result.lastInsertRowid as number);
+    if (!task) throw new Error('Failed to create task');
+
+    await AnalyticsService.invalidate();
+
+    return task;
+  }
+
+  // Next occurrence of a recurring task: the template's content as a fresh todo
+  static async createOccurrence(template: Task, seriesId: number, dueDate: string): Promise<Task> {
+    const result = await db.run(
+      `INSERT INTO tasks (title, description, project_id, assigned_to, created_by_id,
+                          status, priority, tags, due_date, estimated_hours, series_id, position,
+                          created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, 'todo', ?, ?, ?, ?, ?, ${APPEND_POSITION_SQL}, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP)`,
+      [
+        template.title,
+        template.description || null,
+        template.projectId,
+        template.assignedTo || null,
+        template.createdById,
+        template.priority,
+        JSON.stringify(template.tags),
+        dueDate,
+        template.estimatedHours || null,
+        seriesId,
+        template.projectId,
+        'todo'
+      ]
+    );
+
+    const task = await this.findById(result.lastInsertRowid as number);
+    if (!task) throw new Error('Failed to create task occurrence');
+
+    await AnalyticsService.invalidate();
+
+    return task;
+  }
+
+  // Passing expectedVersion turns the write into a compare-and-swap: if someone else
+  // changed the task first, a 412 carrying the current copy is thrown instead
+  static async update(id: number, updates: UpdateTaskRequest, expectedVersion?: number): Promise<Task | null> {
+    const validatedData = updateTaskSchema.parse(updates);
+
+    // A new assignee, or the current one when the task changes project
+    if (validatedData.assignedTo !== undefined || validatedData.projectId !== undefined) {
+      const current = await db.get('SELECT project_id, assigned_to FROM tasks WHERE id = ?', [id]);
+      const assigneeId = validatedData.assignedTo ?? current?.assigned_to;
+
+      if (current && assigneeId) {
+        await this.assertAssignable(validatedData.projectId ?? current.project_id, assigneeId);
+      }
+    }
+
+    const updateFields = [];
+    const updateValues = [];
+
+    if (validatedData.title !== undefined) {
+      updateFields.push('title = ?');
+      updateValues.push(validatedData.title);
+    }
+
+    if (validatedData.description !== undefined) {
+      updateFields.push('description = ?');
+      updateValues.push(validatedData.description);
+    }
+
+    if (validatedData.projectId !== undefined) {
+      updateFields.push('project_id = ?');
+      updateValues.push(validatedData.projectId);
+    }
+
+    if (validatedData.assignedTo !== undefined) {
+      updateFields.push('assigned_to = ?');
+      updateValues.push(validatedData.assignedTo);
+    }
+
+    if (validatedData.status !== undefined) {
+      if (validatedData.status === 'completed' && (await this.countOpenBlockers(id)) > 0) {
+        throw new HttpError(409, 'TASK_BLOCKED', 'Task cannot be completed while blocking tasks are still open');
+      }
+
+      updateFields.push('status = ?', COMPLETED_AT_SQL);
+      updateValues.push(validatedData.status, validatedData.status);
+    }
+
+    if (validatedData.priority !== undefined) {
+      updateFields.push('priority = ?');
+      updateValues.push(validatedData.priority);
+    }
+
+    if (validatedData.tags !== undefined) {
+      updateFields.push('tags = ?');
+      updateValues.push(JSON.stringify(validatedData.tags));
+    }
+
+    if (validatedData.dueDate !== undefined) {
+      updateFields.push('due_date = ?');
+      updateValues.push(validatedData.dueDate);
+    }
+
+    if (validatedData.estimatedHours !== undefined) {
+      updateFields.push('estimated_hours = ?');
+      updateValues.push(validatedData.estimatedHours);
+    }
+
+    // A task that lands in another column goes to its bottom; the right-hand sides
+    // of SET all see the row as it was before this update
+    if (validatedData.status !== undefined || validatedData.projectId !== undefined) {
+      const targetProject = validatedData.projectId ?? null;
+      const targetStatus = validatedData.status ?? null;
+
+      updateFields.push(`position = CASE
+        WHEN tasks.project_id = COALESCE(?, tasks.project_id) AND tasks.status = COALESCE(?, tasks.status)
+          THEN tasks.position
+        ELSE (SELECT COALESCE(MAX(o.position), 0) + ${POSITION_STEP} FROM tasks o
+              WHERE o.project_id = COALESCE(?, tasks.project_id) AND o.status = COALESCE(?, tasks.status))
+      END`);
+      updateValues.push(targetProject, targetStatus, targetProject, targetStatus);
+    }
+
+    updateFields.push('updated_at = CURRENT_TIMESTAMP', 'version = version + 1');
+    updateValues.push(id);
+
+    let whereClause = 'WHERE id = ?';
+    if (expectedVersion !== undefined) {
+      whereClause += ' AND version = ?';
+      updateValues.push(expectedVersion);
+    }
+
+    const result = await db.run(
+      `UPDATE tasks SET ${updateFields.join(', ')} ${whereClause}`,
+      updateValues
+    );
+
+    if (expectedVersion !== undefined && !result.changes) {
+      await this.assertVersion(id, expectedVersion);
+    }
+
+    await AnalyticsService.invalidate();
+
+    return await this.findById(id);
+  }
+
+  // Puts the task into `status` between the given neighbours of that column, see
+  // MoveTaskRequest. Returns the renumbered column too when it had to be respaced.
+  static async move(
+    task: Task,
+    target: MoveTaskRequest,
+    expectedVersion?: number
+  ): Promise<{ task: Task; rebalanced?: TaskPosition[] }> {
+    const { status, afterId, beforeId } = moveTaskSchema.parse(target);
+
+    if (status === 'completed' && task.status !== 'completed' && (await this.countOpenBlockers(task.id)) > 0) {
+      throw new HttpError(409, 'TASK_BLOCKED', 'Task cannot be completed while blocking tasks are still open');
+    }
+
+    // Neighbours are read and the position written in one transaction, so a
+    // concurrent move cannot take the same gap in between
+    const rebalanced = await withTransaction(async () => {
+      if (dialect === 'postgres') {
+        await db.all('SELECT id FROM tasks WHERE project_id = ? AND status = ? FOR UPDATE', [task.projectId, status]);
+      }
+
+      let respaced: TaskPosition[] | undefined;
+      let position = await this.freePosition(task, status, afterId, beforeId);
+
+      if (position === null) {
+        respaced = await this.rebalance(task.projectId, status);
+        position = await this.freePosition(task, status, afterId, beforeId);
+        if (position === null) throw new Error('Column rebalance left no room for the move');
+      }
+
+      await this.writeMove(task, status, position, expectedVersion);
+      return respaced;
+    });
+
+    if (status !== task.status) {
+      await AnalyticsService.invalidate();
+    }
+
+    const moved = await this.findById(task.id);
+    if (!moved) throw new HttpError(404, 'NOT_FOUND', 'Task not found');
+
+    return { task: moved, ...(rebalanced && { rebalanced }) };
+  }
+
+  private static async writeMove(
+    task: Task,
+    status: Task['status'],
+    position: number,
+    expectedVersion?: number
+  ): Promise<void> {
+    const updateFields = ['status = ?', COMPLETED_AT_SQL, 'position = ?'];
+    const updateValues: any[] = [status, status, position];
+
+    updateFields.push('updated_at = CURRENT_TIMESTAMP', 'version = version + 1');
+    updateValues.push(task.id);
+
+    let whereClause = 'WHERE id = ?';
+    if (expectedVersion !== undefined) {
+      whereClause += ' AND version = ?';
+      updateValues.push(expectedVersion);
+    }
+
+    const result = await db.run(
+      `UPDATE tasks SET ${updateFields.join(', ')} ${whereClause}`,
+      updateValues
+    );
+
+    if (expectedVersion !== undefined && !result.changes) {
+      await this.assertVersion(task.id, expectedVersion);
+    }
+  }
+
+  // Free position between the neighbours, or null when they are tied or too
+  // close to split. The adjacent row is looked up in (position, id) order, so
+  // a row sharing the neighbour's position counts as adjacent.
+  private static async freePosition(
+    task: Task,
+    status: Task['status'],
+    afterId?: number,
+    beforeId?: number
+  ): Promise<number | null> {
+    const column = 'FROM tasks WHERE project_id = ? AND status = ? AND id <> ?';
+    const columnParams = [task.projectId, status, task.id];
+
+    const after = afterId !== undefined ? await this.neighbour(afterId, task, status) : null;
+    const before = beforeId !== undefined ? await this.neighbour(beforeId, task, status) : null;
+
+    let lower = after?.position ?? null;
+    let upper = before?.position ?? null;
+
+    if (after && before) {
+      if (!comesBefore(after, before)) {
+        throw new HttpError(409, 'INVALID_MOVE', 'The task given as afterId must be above the one given as beforeId');
+      }
+    } else if (after) {
+      const next = await db.get(
+        `SELECT position ${column} AND (position > ? OR (position = ? AND id > ?)) ORDER BY position, id LIMIT 1`,
+        [...columnParams, after.position, after.position, after.id]
+      );
+      upper = next ? Number(next.position) : null;
+    } else if (before) {
+      const previous = await db.get(
+        `SELECT position ${column} AND (position < ? OR (position = ? AND id < ?)) ORDER BY position DESC, id DESC LIMIT 1`,
+        [...columnParams, before.position, before.position, before.id]
+      );
+      lower = previous ? Number(previous.position) : null;
+    } else {
+      const last = await db.get(`SELECT MAX(position) as position ${column}`, columnParams);
+      lower = last?.position != null ? Number(last.position) : null;
+    }
+
+    return positionBetween(lower, upper);
+  }
+
+  private static async neighbour(id: number, task: Task, status: Task['status']): Promise<ColumnSlot> {
+    const row = id === task.id
+      ? null
+      : await db.get('SELECT id, position FROM tasks WHERE id = ? AND project_id = ? AND status = ?', [id, task.projectId, status]);
+
+    if (!row) {
+      throw new HttpError(400, 'INVALID_NEIGHBOR', `Task ${id} is not in the ${status} column of this project`);
+    }
+
+    return { id: Number(row.id), position: Number(row.position) };
+  }
+
+  // Respaces a column POSITION_STEP apart in its current order. Positions are board
+  // layout rather than task content, so versions are left alone.
+  static async rebalance(projectId: number, status: Task['status']): Promise<TaskPosition[]> {
+    return await withTransaction(async () => {
+      const rows = await db.all(
+        'SELECT id FROM tasks WHERE project_id = ? AND status = ? ORDER BY position, id',
+        [projectId, status]
+      );
+
+      const positions: TaskPosition[] = respace(rows);
+
+      for (const { id, position } of positions) {
+        await db.run('UPDATE tasks SET position = ? WHERE id = ?', [position, id]);
+      }
+
+      return positions;
+    });
+  }
+
+  static async delete(id: number, expectedVersion?: number): Promise<boolean> {
+    const result = expectedVersion !== undefined
+      ? await db.run('DELETE FROM tasks WHERE id = ? AND version = ?', [id, expectedVersion])
+      : await db.run('DELETE FROM tasks WHERE id = ?', [id]);
+
+    if (expectedVersion !== undefined && !result.changes) {
+      await this.assertVersion(id, expectedVersion);
+    }
+
+    await AnalyticsService.invalidate();
+
+    return (result.changes || 0) > 0;
+  }
+
+  static async assertVersion(id: number, expectedVersion: number | null): Promise<void> {
+    const current = await this.findById(id);
+
+    if (current && current.version !== expectedVersion) {
+      throw new HttpError(412, 'PRECONDITION_FAILED', 'Task was modified by someone else', current, {
+        ETag: TaskETag.of(current)
+      });
+    }
+  }
+}
@@ -0,0 +1,303 @@
+import { db, ILIKE, withTransaction } from '../database';
+import { HttpError } from '../middleware/errors';
+import { teamMemberSchema, teamSchema } from './schemas';
+import { UserModel } from './user';
+import { AnalyticsService } from '../services/analytics';
+import type { CreateTeamRequest, Team, TeamFilters, TeamMember, User } from '../../../shared/types';
+
+// Maps the camelCase sort keys from TeamFilters onto real columns
+const TEAM_SORT_COLUMNS: Record<NonNullable<TeamFilters['sortBy']>, string> = {
+  createdAt: 'tm.created_at',
+  updatedAt: 'tm.updated_at',
+  name: 'tm.name'
+};
+
+export class TeamModel {
+  private static toTeam(row: any, members: TeamMember[] = []): Team {
+    return {
+      id: row.id,
+      name: row.name,
+      description: row.description,
+      createdBy: row.created_by,
+      members,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
+    };
+  }
+
+  private static toMember(row: any): TeamMember {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      teamId: row.team_id,
+      role: row.role,
+      joinedAt: row.joined_at,
+      ...(row.user_email && {
+        user: {
+          id: row.user_id,
+          email: row.user_email,
+          name: row.user_name,
+          avatar: row.user_avatar,
+          role: row.user_role,
+          isActive: row.user_is_active,
+          createdAt: row.user_created_at,
+          updatedAt: row.user_updated_at
+        }
+      })
+    };
+  }
+
+  static async getMembership(teamId: number, userId: number): Promise<TeamMember | null> {
+    const member = await db.get(
+      'SELECT * FROM team_members WHERE team_id = ? AND user_id = ?',
+      [teamId, userId]
+    );
+
+    return member ? this.toMember(member) : null;
+  }
+
+  // Admins can see every team; everybody else needs a membership row
+  static async canAccess(teamId: number, user: User): Promise<boolean> {
+    if (user.role === 'admin') return true;
+    return !!(await this.getMembership(teamId, user.id));
+  }
+
+  // Owners and team admins may manage membership and team details
+  static async canManage(teamId: number, user: User): Promise<boolean> {
+    if (user.role === 'admin') return true;
+
+    const membership = await this.getMembership(teamId, user.id);
+    return membership?.role === 'owner' || membership?.role === 'admin';
+  }
+
+  static async getMembers(teamIds: number[]): Promise<TeamMember[]> {
+    if (teamIds.length === 0) return [];
+
+    const members = await db.all(
+      `SELECT m.*, u.email as user_email, u.name as user_name, u.avatar as user_avatar,
+              u.role as user_role, u.is_active as user_is_active,
+              u.created_at as user_created_at, u.updated_at as user_updated_at
+       FROM team_members m
+       JOIN users u ON m.user_id = u.id
+       WHERE m.team_id IN (${teamIds.map(() => '?').join(', ')})
+       ORDER BY m.joined_at ASC`,
+      teamIds
+    );
+
+    return members.map((row: any) => this.toMember(row));
+  }
+
+  static async getMemberIds(teamId: number): Promise<number[]> {
+    const rows = await db.all('SELECT user_id FROM team_members WHERE team_id = ?', [teamId]);
+    return rows.map((row: any) => row.user_id);
+  }
+
+  static async getTeamIds(userId: number): Promise<number[]> {
+    const rows = await db.all('SELECT team_id FROM team_members WHERE user_id = ?', [userId]);
+    return rows.map((row: any) => row.team_id);
+  }
+
+  // Everyone who shares at least one team with the user (including the user)
+  static async getTeammateIds(userId: number): Promise<number[]> {
+    const rows = await db.all(
+      `SELECT DISTINCT user_id FROM team_members
+       WHERE team_id IN (SELECT team_id FROM team_members WHERE user_id = ?)`,
+      [userId]
+    );
+    return rows.map((row: any) => row.user_id);
+  }
+
+  static async sharesTeam(userId: number, otherUserId: number): Promise<boolean> {
+    const row = await db.get(
+      `SELECT 1 AS shared FROM team_members a
+       JOIN team_members b ON b.team_id = a.team_id
+       WHERE a.user_id = ? AND b.user_id = ?`,
+      [userId, otherUserId]
+    );
+    return !!row;
+  }
+
+  static async findById(id: number): Promise<Team | null> {
+    const team = await db.get('SELECT * FROM teams WHERE id = ?', [id]);
+    if (!team) return null;
+
+    return this.toTeam(team, await this.getMembers([id]));
+  }
+
+  static async findMany(filters: TeamFilters, user: User, page = 1, limit = 20) {
+    const offset = (page - 1) * limit;
+    let whereClause = 'WHERE 1=1';
+    const params: any[] = [];
+
+    if (user.role !== 'admin' || filters.memberRole) {
+      whereClause += ' AND tm.id IN (SELECT team_id FROM team_members WHERE user_id = ?';
+      params.push(user.id);
+
+      if (filters.memberRole) {
+        whereClause += ' AND role = ?';
+        params.push(filters.memberRole);
+      }
+
+      whereClause += ')';
+    }
+
+    if (filters.search) {
+      whereClause += ` AND (tm.name ${ILIKE} ? OR tm.description ${ILIKE} ?)`;
+      params.push(`%${filters.search}%`, `%${filters.search}%`);
+    }
+
+    const countResult = await db.get(`SELECT COUNT(*) as total FROM teams tm ${whereClause}`, params);
+    const total = countResult?.total || 0;
+
+    // Own keys only, so ?sortBy=constructor cannot pick up an inherited property
+    const sortColumn = filters.sortBy && Object.hasOwn(TEAM_SORT_COLUMNS, filters.sortBy)
+      ? TEAM_SORT_COLUMNS[filters.sortBy]
+      : 'tm.created_at';
+    const sortOrder = filters.sortOrder === 'asc' ? 'ASC' : 'DESC';
+
+    const rows = await db.all(
+      `SELECT tm.* FROM teams tm
+       ${whereClause}
+       ORDER BY ${sortColumn} ${sortOrder}, tm.id ${sortOrder}
+       LIMIT ? OFFSET ?`,
+      [...params, limit, offset]
+    );
+
+    const members = await this.getMembers(rows.map((row: any) => row.id));
+
+    return {
+      teams: rows.map((row: any) =>
+        this.toTeam(row, members.filter(member => member.teamId === row.id))
+      ),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+        hasNextPage: page * limit < total,
+        hasPrevPage: page > 1
+      }
+    };
+  }
+
+  static async create(teamData: CreateTeamRequest, user: User): Promise<Team> {
+    const validatedData = teamSchema.parse(teamData);
+
+    const teamId = await withTransaction(async () => {
+      const result = await db.run(
+        `INSERT INTO teams (name, description, created_by, created_at, updated_at)
+         VALUES (?, ?, ?, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP)`,
+        [validatedData.name, validatedData.description || null, user.id]
+      );
+
+      const id = result.lastInsertRowid as number;
+
+      // The creator always becomes the first owner
+      await db.run(
+        `INSERT INTO team_members (team_id, user_id, role, joined_at)
+         VALUES (?, ?, 'owner', CURRENT_TIMESTAMP)`,
+        [id, user.id]
+      );
+
+      return id;
+    });
+
+    const team = await this.findById(teamId);
+    if (!team) throw new Error('Failed to create team');
+
+    return team;
+  }
+
+  static async update(id: number, updates: Partial<CreateTeamRequest>): Promise<Team | null> {
+    const validatedData = teamSchema.partial().parse(updates);
+
+    const updateFields = [];
+    const updateValues = [];
+
+    if (validatedData.name !== undefined) {
+      updateFields.push('name = ?');
+      updateValues.push(validatedData.name);
+    }
+
+    if (validatedData.description !== undefined) {
+      updateFields.push('description = ?');
+      updateValues.push(validatedData.description);
+    }
+
+    updateFields.push('updated_at = CURRENT_TIMESTAMP');
+    updateValues.push(id);
+
+    await db.run(
+      `UPDATE teams SET ${updateFields.join(', ')} WHERE id = ?`,
+      updateValues
+    );
+
+    return await this.findById(id);
+  }
+
+  static async delete(id: number): Promise<boolean> {
+    const result = await withTransaction(async () => {
+      await db.run('DELETE FROM team_members WHERE team_id = ?', [id]);
+      return await db.run('DELETE FROM teams WHERE id = ?', [id]);
+    });
+
+    await AnalyticsService.invalidate();
+    return (result.changes || 0) > 0;
+  }
+
+  static async addMember(teamId: number, memberData: { email: string; role?: TeamMember['role'] }): Promise<TeamMember> {
+    const validatedData = teamMemberSchema.parse(memberData);
+
+    const invitee = await UserModel.findByEmail(validatedData.email);
+    if (!invitee || !invitee.isActive) {
+      throw new HttpError(404, 'NOT_FOUND', 'User not found');
+    }
+
+    if (await this.getMembership(teamId, invitee.id)) {
+      throw new HttpError(409, 'ALREADY_MEMBER', 'User is already a member of this team');
+    }
+
+    await db.run(
+      `INSERT INTO team_members (team_id, user_id, role, joined_at)
+       VALUES (?, ?, ?, CURRENT_TIMESTAMP)`,
+      [teamId, invitee.id, validatedData.role || 'member']
+    );
+
+    // Analytics are cached per viewer, scoped by the teams they belong to
+    await AnalyticsService.invalidate();
+
+    const [member] = (await this.getMembers([teamId])).filter(m => m.userId === invitee.id);
+    if (!member) throw new Error('Failed to add team member');
+
+    return member;
+  }
+
+  static async countOwners(teamId: number): Promise<number> {
+    const result = await db.get(
+      `SELECT COUNT(*) as total FROM team_members WHERE team_id = ? AND role = 'owner'`,
+      [teamId]
+    );
+
+    return result?.total || 0;
+  }
+
+  static async updateMemberRole(teamId: number, userId: number, role: TeamMember['role']): Promise<TeamMember | null> {
+    await db.run(
+      'UPDATE team_members SET role = ? WHERE team_id = ? AND user_id = ?',
+      [role, teamId, userId]
+    );
+
+    const [member] = (await this.getMembers([teamId])).filter(m => m.userId === userId);
+    return member || null;
+  }
+
+  static async removeMember(teamId: number, userId: number): Promise<boolean> {
+    const result = await db.run(
+      'DELETE FROM team_members WHERE team_id = ? AND user_id = ?',
+      [teamId, userId]
+    );
+
+    await AnalyticsService.invalidate();
+    return (result.changes || 0) > 0;
+  }
+}
@@ -0,0 +1,228 @@
+import { db } from '../database';
+import { HttpError, isUniqueViolation } from '../middleware/errors';
+import { timeEntrySchema, timeEntryUpdateSchema } from './schemas';
+import { AnalyticsService } from '../services/analytics';
+import type {
+  CreateTimeEntryRequest, TimeEntry, TimesheetFilters, TimesheetRow, UpdateTimeEntryRequest, User
+} from '../../../shared/types';
+
+export class TimeEntryModel {
+  private static toEntry(row: any): TimeEntry {
+    return {
+      id: row.id,
+      taskId: row.task_id,
+      userId: row.user_id,
+      source: row.source,
+      startedAt: row.started_at,
+      endedAt: row.ended_at ?? undefined,
+      durationSeconds: row.duration_seconds ?? undefined,
+      note: row.note ?? undefined,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
+    };
+  }
+
+  private static secondsBetween(startedAt: string, endedAt: string): number {
+    return Math.max(0, Math.round((new Date(endedAt).getTime() - new Date(startedAt).getTime()) / 1000));
+  }
+
+  static async findById(id: number): Promise<TimeEntry | null> {
+    const entry = await db.get('SELECT * FROM time_entries WHERE id = ?', [id]);
+    return entry ? this.toEntry(entry) : null;
+  }
+
+  static async findRunning(userId: number): Promise<TimeEntry | null> {
+    const entry = await db.get('SELECT * FROM time_entries WHERE user_id = ? AND ended_at IS NULL', [userId]);
+    return entry ? this.toEntry(entry) : null;
+  }
+
+  static async findByTask(taskId: number, page = 1, limit = 20) {
+    const offset = (page - 1) * limit;
+
+    const countResult = await db.get('SELECT COUNT(*) as total FROM time_entries WHERE task_id = ?', [taskId]);
+    const total = countResult?.total || 0;
+
+    const entries = await db.all(
+      `SELECT * FROM time_entries
+       WHERE task_id = ?
+       ORDER BY started_at DESC, id DESC
+       LIMIT ? OFFSET ?`,
+      [taskId, limit, offset]
+    );
+
+    return {
+      entries: entries.map((row: any) => this.toEntry(row)),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+        hasNextPage: page * limit < total,
+        hasPrevPage: page > 1
+      }
+    };
+  }
+
+  static async start(taskId: number, userId: number, note?: string): Promise<TimeEntry> {
+    let result;
+
+    try {
+      result = await db.run(
+        `INSERT INTO time_entries (task_id, user_id, source, started_at, note, created_at, updated_at)
+         VALUES (?, ?, 'timer', ?, ?, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP)`,
+        [taskId, userId, new Date().toISOString(), note || null]
+      );
+    } catch (error) {
+      // idx_time_entries_running allows one running timer per user
+      if (isUniqueViolation(error)) {
+        throw new HttpError(409, 'TIMER_RUNNING', 'Another timer was started at the same time; try again');
+      }
+      throw error;
+    }
+
+    const entry = await this.findById(result.lastInsertRowid as number);
+    if (!entry) throw new Error('Failed to start timer');
+
+    return entry;
+  }
+
+  static async stop(entry: TimeEntry): Promise<TimeEntry> {
+    const endedAt = new Date().toISOString();
+
+    await db.run(
+      `UPDATE time_entries SET ended_at = ?, duration_seconds = ?, updated_at = CURRENT_TIMESTAMP
+       WHERE id = ? AND ended_at IS NULL`,
+      [endedAt, this.secondsBetween(entry.startedAt, endedAt), entry.id]
+    );
+    await this.recomputeActualHours(entry.taskId);
+
+    const stopped = await this.findById(entry.id);
+    if (!stopped) throw new Error('Failed to stop timer');
+
+    return stopped;
+  }
+
+  static async create(taskId: number, userId: number, data: CreateTimeEntryRequest): Promise<TimeEntry> {
+    const validatedData = timeEntrySchema.parse(data);
+
+    const endedAt = validatedData.endedAt
+      || new Date(Date.parse(validatedData.startedAt) + validatedData.durationMinutes! * 60 * 1000).toISOString();
+
+    const result = await db.run(
+      `INSERT INTO time_entries (task_id, user_id, source, started_at, ended_at, duration_seconds, note,
+                                 created_at, updated_at)
+       VALUES (?, ?, 'manual', ?, ?, ?, ?, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP)`,
+      [
+        taskId,
+        userId,
+        validatedData.startedAt,
+        endedAt,
+        this.secondsBetween(validatedData.startedAt, endedAt),
+        validatedData.note || null
+      ]
+    );
+    await this.recomputeActualHours(taskId);
+
+    const entry = await this.findById(result.lastInsertRowid as number);
+    if (!entry) throw new Error('Failed to create time entry');
+
+    return entry;
+  }
+
+  static async update(entry: TimeEntry, data: UpdateTimeEntryRequest): Promise<TimeEntry | null> {
+    const validatedData = timeEntryUpdateSchema.parse(data);
+
+    const startedAt = validatedData.startedAt ?? entry.startedAt;
+    const endedAt = validatedData.endedAt ?? entry.endedAt;
+
+    if (endedAt && Date.parse(endedAt) <= Date.parse(startedAt)) {
+      throw new HttpError(400, 'INVALID_TIME_RANGE', 'endedAt must be after startedAt');
+    }
+
+    // A running timer keeps running until stopped; only its start and note can change
+    if (!entry.endedAt && validatedData.endedAt) {
+      throw new HttpError(409, 'TIMER_RUNNING', 'Stop the timer instead of setting its end time');
+    }
+
+    await db.run(
+      `UPDATE time_entries SET started_at = ?, ended_at = ?, duration_seconds = ?, note = ?,
+                               updated_at = CURRENT_TIMESTAMP
+       WHERE id = ?`,
+      [
+        startedAt,
+        endedAt ?? null,
+        endedAt ? this.secondsBetween(startedAt, endedAt) : null,
+        validatedData.note !== undefined ? validatedData.note : entry.note ?? null,
+        entry.id
+      ]
+    );
+    await this.recomputeActualHours(entry.taskId);
+
+    return await this.findById(entry.id);
+  }
+
+  static async delete(entry: TimeEntry): Promise<boolean> {
+    const result = await db.run('DELETE FROM time_entries WHERE id = ?', [entry.id]);
+    await this.recomputeActualHours(entry.taskId);
+
+    return (result.changes || 0) > 0;
+  }
+
+  // actual_hours is derived from finished entries. It does not bump the task
+  // version, so logging time never invalidates someone's pending edit.
+  static async recomputeActualHours(taskId: number): Promise<void> {
+    await db.run(
+      `UPDATE tasks SET actual_hours = (
+         SELECT ROUND(COALESCE(SUM(duration_seconds), 0) / 3600.0, 2)
+         FROM time_entries WHERE task_id = ? AND ended_at IS NOT NULL
+       )
+       WHERE id = ?`,
+      [taskId, taskId]
+    );
+
+    await AnalyticsService.invalidate();
+  }
+
+  // Finished entries in [from, to), limited to tasks the viewer can access
+  static async timesheet(filters: TimesheetFilters, viewer: User): Promise<TimesheetRow[]> {
+    let whereClause = 'WHERE e.ended_at IS NOT NULL AND e.started_at >= ? AND e.started_at < ?';
+    const params: any[] = [filters.from, filters.to];
+
+    if (viewer.role !== 'admin') {
+      whereClause += ' AND p.team_id IN (SELECT team_id FROM team_members WHERE user_id = ?)';
+      params.push(viewer.id);
+    }
+
+    if (filters.userId) {
+      whereClause += ' AND e.user_id = ?';
+      params.push(filters.userId);
+    }
+
+    if (filters.projectId) {
+      whereClause += ' AND t.project_id = ?';
+      params.push(filters.projectId);
+    }
+
+    const rows = await db.all(
+      `SELECT e.*, t.title as task_title, t.project_id, p.name as project_name,
+              u.name as user_name, u.email as user_email
+       FROM time_entries e
+       JOIN tasks t ON e.task_id = t.id
+       JOIN projects p ON t.project_id = p.id
+       JOIN users u ON e.user_id = u.id
+       ${whereClause}
+       ORDER BY e.started_at ASC, e.id ASC`,
+      params
+    );
+
+    return rows.map((row: any) => ({
+      ...this.toEntry(row),
+      taskTitle: row.task_title,
+      projectId: row.project_id,
+      projectName: row.project_name,
+      userName: row.user_name,
+      userEmail: row.user_email,
+      hours: Math.round((row.duration_seconds || 0) / 36) / 100
+    }));
+  }
+}
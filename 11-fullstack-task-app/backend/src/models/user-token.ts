@@ -0,0 +1,57 @@
+import { createHash, randomBytes } from 'crypto';
+import { db } from '../database';
+import { HttpError } from '../middleware/errors';
+
+export type UserTokenPurpose = 'password_reset' | 'email_verification';
+
+// Single-use tokens mailed to users, stored hashed like refresh tokens
+export class UserTokenModel {
+  private static hash(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+
+  // Issuing a new token invalidates the user's earlier ones for the same purpose
+  static async create(userId: number, purpose: UserTokenPurpose, ttlSeconds: number): Promise<string> {
+    const token = randomBytes(32).toString('base64url');
+    const expiresAt = new Date(Date.now() + ttlSeconds * 1000).toISOString();
+
+    await db.run(
+      `UPDATE user_tokens SET used_at = CURRENT_TIMESTAMP
+       WHERE user_id = ? AND purpose = ? AND used_at IS NULL`,
+      [userId, purpose]
+    );
+
+    await db.run(
+      `INSERT INTO user_tokens (user_id, purpose, token_hash, expires_at, created_at)
+       VALUES (?, ?, ?, ?, CURRENT_TIMESTAMP)`,
+      [userId, purpose, this.hash(token), expiresAt]
+    );
+
+    return token;
+  }
+
+  // Returns the token's user id and marks it used; every failure looks the same
+  static async consume(token: string, purpose: UserTokenPurpose): Promise<number> {
+    const stored = await db.get(
+      'SELECT * FROM user_tokens WHERE token_hash = ? AND purpose = ?',
+      [this.hash(token), purpose]
+    );
+
+    const invalid = new HttpError(400, 'INVALID_TOKEN', 'This link is invalid or has expired');
+
+    if (!stored || stored.used_at || new Date(stored.expires_at).getTime() <= Date.now()) {
+      throw invalid;
+    }
+
+    // Conditional update so the same token cannot be redeemed twice concurrently
+    const result = await db.run(
+      'UPDATE user_tokens SET used_at = CURRENT_TIMESTAMP WHERE id = ? AND used_at IS NULL',
+      [stored.id]
+    );
+    if ((result.changes || 0) === 0) {
+      throw invalid;
+    }
+
+    return stored.user_id;
+  }
+}
@@ -0,0 +1,95 @@
+import { createHash } from 'crypto';
+import { db } from '../database';
+import type { User } from '../../../shared/types';
+
+export class UserModel {
+  static async findById(id: number): Promise<User | null> {
+    const user = await db.get(
+      `SELECT id, email, name, avatar, role, is_active, created_at, updated_at, last_login_at, email_verified_at
+       FROM users WHERE id = ?`,
+      [id]
+    );
+
+    if (!user) return null;
+
+    return {
+      id: user.id,
+      email: user.email,
+      name: user.name,
+      avatar: user.avatar,
+      role: user.role,
+      isActive: user.is_active,
+      createdAt: user.created_at,
+      updatedAt: user.updated_at,
+      lastLoginAt: user.last_login_at,
+      emailVerifiedAt: user.email_verified_at
+    };
+  }
+
+  static async findAdminIds(): Promise<number[]> {
+    const rows = await db.all("SELECT id FROM users WHERE role = 'admin' AND is_active = true");
+    return rows.map((row: any) => row.id);
+  }
+
+  static async findByEmail(email: string): Promise<User | null> {
+    const user = await db.get(
+      `SELECT id, email, name, avatar, role, is_active, created_at, updated_at, last_login_at, email_verified_at
+       FROM users WHERE email = ?`,
+      [email]
+    );
+
+    if (!user) return null;
+
+    return {
+      id: user.id,
+      email: user.email,
+      name: user.name,
+      avatar: user.avatar,
+      role: user.role,
+      isActive: user.is_active,
+      createdAt: user.created_at,
+      updatedAt: user.updated_at,
+      lastLoginAt: user.last_login_at,
+      emailVerifiedAt: user.email_verified_at
+    };
+  }
+
+  static hashPassword(password: string): string {
+    return createHash('sha256').update(password).digest('hex');
+  }
+
+  static async verifyPassword(userId: number, password: string): Promise<boolean> {
+    const stored = await db.get('SELECT password_hash FROM users WHERE id = ?', [userId]);
+    return !!stored && this.hashPassword(password) === stored.password_hash;
+  }
+
+  static async create(userData: { name: string; email: string; password: string }): Promise<User> {
+    const passwordHash = this.hashPassword(userData.password);
+
+    const result = await db.run(
+      `INSERT INTO users (name, email, password_hash, role, is_active, created_at, updated_at)
+       VALUES (?, ?, ?, 'member', true, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP)`,
+      [userData.name, userData.email, passwordHash]
+    );
+
+    const user = await this.findById(result.lastInsertRowid as number);
+    if (!user) throw new Error('Failed to create user');
+
+    return user;
+  }
+
+  static async setPassword(userId: number, password: string): Promise<void> {
+    await db.run(
+      'UPDATE users SET password_hash = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?',
+      [this.hashPassword(password), userId]
+    );
+  }
+
+  static async markEmailVerified(userId: number): Promise<void> {
+    await db.run(
+      `UPDATE users SET email_verified_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+       WHERE id = ? AND email_verified_at IS NULL`,
+      [userId]
+    );
+  }
+}
@@ -0,0 +1,125 @@
+import { db } from '../database';
+import type { WebhookDelivery, WebhookPayload } from '../../../shared/types';
+
+export class WebhookDeliveryModel {
+  private static toDelivery(row: any): WebhookDelivery {
+    return {
+      id: row.id,
+      webhookId: row.webhook_id,
+      eventId: row.event_id,
+      eventType: row.event_type,
+      status: row.status,
+      attempts: row.attempts,
+      nextAttemptAt: row.next_attempt_at ?? undefined,
+      lastStatusCode: row.last_status_code ?? undefined,
+      lastError: row.last_error ?? undefined,
+      responseBody: row.response_body ?? undefined,
+      payload: JSON.parse(row.payload),
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+      deliveredAt: row.delivered_at ?? undefined
+    };
+  }
+
+  static async findById(id: number): Promise<WebhookDelivery | null> {
+    const delivery = await db.get('SELECT * FROM webhook_deliveries WHERE id = ?', [id]);
+    return delivery ? this.toDelivery(delivery) : null;
+  }
+
+  static async findByWebhook(webhookId: number, status: WebhookDelivery['status'] | undefined, page = 1, limit = 20) {
+    const offset = (page - 1) * limit;
+    let whereClause = 'WHERE webhook_id = ?';
+    const params: any[] = [webhookId];
+
+    if (status) {
+      whereClause += ' AND status = ?';
+      params.push(status);
+    }
+
+    const countResult = await db.get(`SELECT COUNT(*) as total FROM webhook_deliveries ${whereClause}`, params);
+    const total = countResult?.total || 0;
+
+    const deliveries = await db.all(
+      `SELECT * FROM webhook_deliveries
+       ${whereClause}
+       ORDER BY created_at DESC, id DESC
+       LIMIT ? OFFSET ?`,
+      [...params, limit, offset]
+    );
+
+    return {
+      deliveries: deliveries.map((row: any) => this.toDelivery(row)),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+        hasNextPage: page * limit < total,
+        hasPrevPage: page > 1
+      }
+    };
+  }
+
+  static async create(webhookId: number, payload: WebhookPayload): Promise<WebhookDelivery> {
+    const result = await db.run(
+      `INSERT INTO webhook_deliveries (webhook_id, event_id, event_type, payload, status, attempts,
+                                       next_attempt_at, created_at, updated_at)
+       VALUES (?, ?, ?, ?, 'pending', 0, ?, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP)`,
+      [webhookId, payload.id, payload.type, JSON.stringify(payload), new Date().toISOString()]
+    );
+
+    const delivery = await this.findById(result.lastInsertRowid as number);
+    if (!delivery) throw new Error('Failed to create webhook delivery');
+
+    return delivery;
+  }
+
+  static async findDue(now: string, limit: number): Promise<WebhookDelivery[]> {
+    const rows = await db.all(
+      `SELECT * FROM webhook_deliveries
+       WHERE status = 'pending' AND next_attempt_at <= ?
+       ORDER BY next_attempt_at, id
+       LIMIT ?`,
+      [now, limit]
+    );
+
+    return rows.map((row: any) => this.toDelivery(row));
+  }
+
+  // Compare-and-swap on next_attempt_at: the instance that wins pushes the
+  // attempt time out by a lease, after which a crashed attempt is retried
+  static async claim(delivery: WebhookDelivery, leaseUntil: string): Promise<boolean> {
+    const result = await db.run(
+      `UPDATE webhook_deliveries SET next_attempt_at = ?, updated_at = CURRENT_TIMESTAMP
+       WHERE id = ? AND status = 'pending' AND next_attempt_at = ?`,
+      [leaseUntil, delivery.id, delivery.nextAttemptAt]
+    );
+
+    return (result.changes || 0) > 0;
+  }
+
+  static async recordAttempt(id: number, attempt: {
+    status: WebhookDelivery['status'];
+    statusCode?: number | undefined;
+    error?: string | undefined;
+    responseBody?: string | undefined;
+    nextAttemptAt?: string | null;
+  }): Promise<void> {
+    await db.run(
+      `UPDATE webhook_deliveries
+       SET status = ?, attempts = attempts + 1, next_attempt_at = ?, last_status_code = ?, last_error = ?,
+           response_body = ?, updated_at = CURRENT_TIMESTAMP,
+           delivered_at = CASE WHEN ? = 'succeeded' THEN CURRENT_TIMESTAMP ELSE delivered_at END
+       WHERE id = ?`,
+      [
+        attempt.status,
+        attempt.nextAttemptAt ?? null,
+        attempt.statusCode ?? null,
+        attempt.error ?? null,
+        attempt.responseBody ?? null,
+        attempt.status,
+        id
+      ]
+    );
+  }
+}
@@ -0,0 +1,126 @@
+import { randomBytes } from 'crypto';
+import { config } from '../config';
+import { db } from '../database';
+import { HttpError } from '../middleware/errors';
+import { webhookSchema, webhookUpdateSchema } from './schemas';
+import { assertPublicHost } from '../utils/webhook-delivery';
+import type {
+  CreateWebhookRequest, UpdateWebhookRequest, User, Webhook, WebhookEventType
+} from '../../../shared/types';
+
+export class WebhookModel {
+  private static toWebhook(row: any, includeSecret = false): Webhook {
+    return {
+      id: row.id,
+      teamId: row.team_id,
+      url: row.url,
+      eventTypes: JSON.parse(row.event_types),
+      isActive: !!row.is_active,
+      createdBy: row.created_by,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+      secret: includeSecret ? row.secret : undefined
+    };
+  }
+
+  static async findById(id: number, options: { includeSecret?: boolean } = {}): Promise<Webhook | null> {
+    const webhook = await db.get('SELECT * FROM webhooks WHERE id = ?', [id]);
+    return webhook ? this.toWebhook(webhook, options.includeSecret) : null;
+  }
+
+  static async findByTeam(teamId: number): Promise<Webhook[]> {
+    const rows = await db.all('SELECT * FROM webhooks WHERE team_id = ? ORDER BY id', [teamId]);
+    return rows.map((row: any) => this.toWebhook(row));
+  }
+
+  static async findSubscribed(teamId: number, eventType: string): Promise<Webhook[]> {
+    const rows = await db.all('SELECT * FROM webhooks WHERE team_id = ? AND is_active = true', [teamId]);
+
+    return rows
+      .map((row: any) => this.toWebhook(row))
+      .filter((webhook: Webhook) => webhook.eventTypes.includes(eventType as WebhookEventType));
+  }
+
+  // Rejects hosts that are, or resolve to any, internal address. The dispatcher
+  // checks again before every attempt, as DNS answers can change later.
+  static async assertDeliverableUrl(value: string): Promise<void> {
+    const url = new URL(value);
+
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+      throw new HttpError(400, 'INVALID_WEBHOOK_URL', 'Webhook URLs must use http or https');
+    }
+
+    if (config.webhookAllowPrivateUrls) return;
+
+    try {
+      await assertPublicHost(url.hostname);
+    } catch (error: any) {
+      throw new HttpError(400, 'INVALID_WEBHOOK_URL', `Webhook URLs must point to public addresses: ${error.message}`);
+    }
+  }
+
+  static async create(data: CreateWebhookRequest, user: User): Promise<Webhook> {
+    const validatedData = webhookSchema.parse(data);
+    await this.assertDeliverableUrl(validatedData.url);
+
+    const secret = validatedData.secret || `whsec_${randomBytes(24).toString('hex')}`;
+
+    const result = await db.run(
+      `INSERT INTO webhooks (team_id, url, secret, event_types, is_active, created_by, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP)`,
+      [
+        validatedData.teamId,
+        validatedData.url,
+        secret,
+        JSON.stringify(validatedData.eventTypes),
+        validatedData.isActive ?? true,
+        user.id
+      ]
+    );
+
+    const webhook = await this.findById(result.lastInsertRowid as number, { includeSecret: true });
+    if (!webhook) throw new Error('Failed to create webhook');
+
+    return webhook;
+  }
+
+  static async update(id: number, updates: UpdateWebhookRequest): Promise<Webhook | null> {
+    const validatedData = webhookUpdateSchema.parse(updates);
+
+    const updateFields = [];
+    const updateValues = [];
+
+    if (validatedData.url !== undefined) {
+      await this.assertDeliverableUrl(validatedData.url);
+      updateFields.push('url = ?');
+      updateValues.push(validatedData.url);
+    }
+
+    if (validatedData.eventTypes !== undefined) {
+      updateFields.push('event_types = ?');
+      updateValues.push(JSON.stringify(validatedData.eventTypes));
+    }
+
+    if (validatedData.secret !== undefined) {
+      updateFields.push('secret = ?');
+      updateValues.push(validatedData.secret);
+    }
+
+    if (validatedData.isActive !== undefined) {
+      updateFields.push('is_active = ?');
+      updateValues.push(validatedData.isActive);
+    }
+
+    updateFields.push('updated_at = CURRENT_TIMESTAMP');
+    updateValues.push(id);
+
+    await db.run(`UPDATE webhooks SET ${updateFields.join(', ')} WHERE id = ?`, updateValues);
+
+    return await this.findById(id, { includeSecret: validatedData.secret !== undefined });
+  }
+
+  static async delete(id: number): Promise<boolean> {
+    const result = await db.run('DELETE FROM webhooks WHERE id = ?', [id]);
+    return (result.changes || 0) > 0;
+  }
+}
@@ -0,0 +1,71 @@
+import { config } from '../config';
+import { redis } from '../database';
+import { UserTokenModel, type UserTokenPurpose } from '../models/user-token';
+import { createMailer, type Mailer } from '../utils/mailer';
+import type { User } from '../../../shared/types';
+
+// Account emails
+const mailer: Mailer = createMailer({
+  transport: config.mailTransport === 'smtp' ? 'smtp' : 'console',
+  from: config.mailFrom,
+  outputDir: config.mailOutputDir || undefined,
+  // Reset and verification links are live credentials; keep them out of production logs
+  showBodies: config.nodeEnv !== 'production',
+  smtp: {
+    host: config.smtpHost,
+    port: config.smtpPort,
+    secure: config.smtpSecure,
+    user: config.smtpUser || undefined,
+    password: config.smtpPassword || undefined
+  }
+});
+
+export const ACCOUNT_EMAIL_COOLDOWN = 60; // seconds between emails of one kind to one user
+
+export class AccountEmailService {
+  // SET NX in Redis so repeated requests cannot flood an inbox
+  private static async claimCooldown(purpose: UserTokenPurpose, userId: number): Promise<boolean> {
+    const result = await redis.set(`mail:${purpose}:${userId}`, '1', 'EX', ACCOUNT_EMAIL_COOLDOWN, 'NX');
+    return result === 'OK';
+  }
+
+  // Both senders return false when an email of that kind went out too recently
+  static async sendPasswordReset(user: User): Promise<boolean> {
+    if (!(await this.claimCooldown('password_reset', user.id))) return false;
+
+    const token = await UserTokenModel.create(user.id, 'password_reset', config.passwordResetTtl);
+    const link = `${config.appUrl}/reset-password?token=${token}`;
+    const minutes = Math.round(config.passwordResetTtl / 60);
+
+    await mailer.send({
+      to: user.email,
+      toName: user.name,
+      subject: 'Reset your TaskFlow password',
+      text: `Hi ${user.name},\n\n` +
+        `Someone asked to reset the password of your TaskFlow account. Open this link to choose a new one:\n\n` +
+        `${link}\n\n` +
+        `The link works once and expires in ${minutes} minutes. If you did not ask for this, you can ignore this email.`
+    });
+
+    return true;
+  }
+
+  static async sendVerification(user: User): Promise<boolean> {
+    if (!(await this.claimCooldown('email_verification', user.id))) return false;
+
+    const token = await UserTokenModel.create(user.id, 'email_verification', config.emailVerificationTtl);
+    const link = `${config.appUrl}/verify-email?token=${token}`;
+
+    await mailer.send({
+      to: user.email,
+      toName: user.name,
+      subject: 'Confirm your email address',
+      text: `Hi ${user.name},\n\n` +
+        `Please confirm that ${user.email} is your email address by opening this link:\n\n` +
+        `${link}\n\n` +
+        `If you did not create a TaskFlow account, you can ignore this email.`
+    });
+
+    return true;
+  }
+}
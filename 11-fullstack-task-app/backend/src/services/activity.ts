@@ -0,0 +1,35 @@
+import { ActivityModel } from '../models/activity';
+import { diffFields } from '../utils/activity-diff';
+import type { ActivityChange, ActivityEntry, Task, User } from '../../../shared/types';
+
+// Fields whose changes show up in a task's activity history
+const TASK_ACTIVITY_FIELDS: Array<keyof Task & string> = [
+  'title', 'description', 'projectId', 'assignedTo', 'status', 'priority',
+  'tags', 'dueDate', 'estimatedHours', 'actualHours'
+];
+
+export class ActivityService {
+  static diffTask(before: Task | null, after: Task | null): ActivityChange[] {
+    return diffFields(before, after, TASK_ACTIVITY_FIELDS);
+  }
+
+  static async recordTask(
+    action: ActivityEntry['action'],
+    before: Task | null,
+    after: Task | null,
+    actor: User
+  ): Promise<void> {
+    const task = after || before;
+    if (!task) return;
+
+    const changes = this.diffTask(before, after);
+    if (action === 'updated' && changes.length === 0) return;
+
+    try {
+      await ActivityModel.create({ entityType: 'task', entityId: task.id, action, userId: actor.id, changes });
+    } catch (error) {
+      // The change itself already happened; losing its history entry must not fail the request
+      console.error('Activity log error:', error);
+    }
+  }
+}
@@ -0,0 +1,293 @@
+import { db, dialect, redis } from '../database';
+import type {
+  Project, ProjectAnalytics, Task, TaskAnalytics, User, UserAnalytics
+} from '../../../shared/types';
+
+// Analytics
+const ANALYTICS_CACHE_TTL = 300; // seconds
+const ANALYTICS_TREND_DAYS = 14;
+
+export class AnalyticsService {
+  // Cache keys embed a version number, so bumping it invalidates every entry at once
+  static async invalidate(): Promise<void> {
+    try {
+      await redis.incr('analytics:version');
+    } catch (error) {
+      console.error('Analytics cache invalidation error:', error);
+    }
+  }
+
+  private static async cached<T>(key: string, compute: () => Promise<T>): Promise<T> {
+    let cacheKey: string | null = null;
+
+    try {
+      const version = (await redis.get('analytics:version')) || '0';
+      cacheKey = `analytics:v${version}:${key}`;
+
+      const hit = await redis.get(cacheKey);
+      if (hit) return JSON.parse(hit);
+    } catch (error) {
+      // Redis being unavailable only costs us the cache
+      console.error('Analytics cache read error:', error);
+    }
+
+    const value = await compute();
+
+    if (cacheKey) {
+      try {
+        await redis.setex(cacheKey, ANALYTICS_CACHE_TTL, JSON.stringify(value));
+      } catch (error) {
+        console.error('Analytics cache write error:', error);
+      }
+    }
+
+    return value;
+  }
+
+  // SQL for the seconds between two timestamp expressions; SQLite has no EXTRACT
+  private static secondsBetween(start: string, end: string): string {
+    return dialect === 'sqlite'
+      ? `((julianday(${end}) - julianday(${start})) * 86400)`
+      : `EXTRACT(EPOCH FROM (${end} - ${start}))`;
+  }
+
+  // Restricts queries over tasks `t` to what the viewer can see
+  private static taskScope(viewer: User): { clause: string; params: any[] } {
+    if (viewer.role === 'admin') return { clause: '', params: [] };
+
+    return {
+      clause: ` AND t.project_id IN (
+        SELECT id FROM projects WHERE team_id IN (SELECT team_id FROM team_members WHERE user_id = ?)
+      )`,
+      params: [viewer.id]
+    };
+  }
+
+  private static emptyTrend(): Map<string, { date: string; completed: number; created: number }> {
+    const trend = new Map<string, { date: string; completed: number; created: number }>();
+
+    for (let i = ANALYTICS_TREND_DAYS - 1; i >= 0; i--) {
+      const date = new Date(Date.now() - i * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+      trend.set(date, { date, completed: 0, created: 0 });
+    }
+
+    return trend;
+  }
+
+  private static async computeTaskAnalytics(whereClause: string, params: any[]): Promise<TaskAnalytics> {
+    const now = new Date().toISOString();
+
+    const totals = await db.get(
+      `SELECT COUNT(*) as total,
+              SUM(CASE WHEN t.status = 'completed' THEN 1 ELSE 0 END) as completed,
+              SUM(CASE WHEN t.status = 'in_progress' THEN 1 ELSE 0 END) as in_progress,
+              SUM(CASE WHEN t.status != 'completed' AND t.due_date < ? THEN 1 ELSE 0 END) as overdue,
+              COALESCE(SUM(t.estimated_hours), 0) as estimated_hours,
+              COALESCE(SUM(t.actual_hours), 0) as actual_hours,
+              AVG(CASE WHEN t.completed_at IS NOT NULL
+                       THEN ${this.secondsBetween('t.created_at', 't.completed_at')} / 3600 END) as avg_completion_hours
+       FROM tasks t WHERE 1=1 ${whereClause}`,
+      [now, ...params]
+    );
+
+    const tasksByStatus: TaskAnalytics['tasksByStatus'] = { todo: 0, in_progress: 0, review: 0, completed: 0 };
+    const statusRows = await db.all(
+      `SELECT t.status, COUNT(*) as count FROM tasks t WHERE 1=1 ${whereClause} GROUP BY t.status`,
+      params
+    );
+    statusRows.forEach((row: any) => { tasksByStatus[row.status as Task['status']] = Number(row.count); });
+
+    const tasksByPriority: TaskAnalytics['tasksByPriority'] = { low: 0, medium: 0, high: 0, urgent: 0 };
+    const priorityRows = await db.all(
+      `SELECT t.priority, COUNT(*) as count FROM tasks t WHERE 1=1 ${whereClause} GROUP BY t.priority`,
+      params
+    );
+    priorityRows.forEach((row: any) => { tasksByPriority[row.priority as Task['priority']] = Number(row.count); });
+
+    const projectRows = await db.all(
+      `SELECT t.project_id, p.name as project_name, COUNT(*) as count
+       FROM tasks t JOIN projects p ON t.project_id = p.id
+       WHERE 1=1 ${whereClause}
+       GROUP BY t.project_id, p.name
+       ORDER BY count DESC`,
+      params
+    );
+
+    const since = new Date(Date.now() - (ANALYTICS_TREND_DAYS - 1) * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+    const trend = this.emptyTrend();
+    const createdRows = await db.all(
+      `SELECT DATE(t.created_at) as date, COUNT(*) as count FROM tasks t
+       WHERE t.created_at >= ? ${whereClause} GROUP BY DATE(t.created_at)`,
+      [since, ...params]
+    );
+    const completedRows = await db.all(
+      `SELECT DATE(t.completed_at) as date, COUNT(*) as count FROM tasks t
+       WHERE t.completed_at >= ? ${whereClause} GROUP BY DATE(t.completed_at)`,
+      [since, ...params]
+    );
+    createdRows.forEach((row: any) => {
+      const day = trend.get(new Date(row.date).toISOString().slice(0, 10));
+      if (day) day.created = Number(row.count);
+    });
+    completedRows.forEach((row: any) => {
+      const day = trend.get(new Date(row.date).toISOString().slice(0, 10));
+      if (day) day.completed = Number(row.count);
+    });
+
+    const totalTasks = Number(totals?.total || 0);
+    const completedTasks = Number(totals?.completed || 0);
+
+    return {
+      totalTasks,
+      completedTasks,
+      inProgressTasks: Number(totals?.in_progress || 0),
+      overdueTasks: Number(totals?.overdue || 0),
+      completionRate: totalTasks > 0 ? Math.round((completedTasks / totalTasks) * 1000) / 10 : 0,
+      totalEstimatedHours: Number(totals?.estimated_hours || 0),
+      totalActualHours: Number(totals?.actual_hours || 0),
+      tasksByStatus,
+      tasksByPriority,
+      tasksByProject: projectRows.map((row: any) => ({
+        projectId: row.project_id,
+        projectName: row.project_name,
+        count: Number(row.count)
+      })),
+      averageCompletionTime: Math.round(Number(totals?.avg_completion_hours || 0) * 10) / 10,
+      productivityTrend: Array.from(trend.values())
+    };
+  }
+
+  static async getTaskAnalytics(viewer: User): Promise<TaskAnalytics> {
+    const scope = this.taskScope(viewer);
+    const scopeKey = viewer.role === 'admin' ? 'all' : `user:${viewer.id}`;
+
+    return this.cached(`tasks:${scopeKey}`, () =>
+      this.computeTaskAnalytics(scope.clause, scope.params)
+    );
+  }
+
+  // Access to the project is checked by the caller
+  static async getProjectTaskAnalytics(projectId: number): Promise<TaskAnalytics> {
+    return this.cached(`project:${projectId}`, () =>
+      this.computeTaskAnalytics(' AND t.project_id = ?', [projectId])
+    );
+  }
+
+  static async getUserTaskAnalytics(userId: number, viewer: User): Promise<TaskAnalytics> {
+    const scope = this.taskScope(viewer);
+    const scopeKey = viewer.role === 'admin' ? 'all' : `user:${viewer.id}`;
+
+    return this.cached(`user:${userId}:${scopeKey}`, () =>
+      this.computeTaskAnalytics(` AND t.assigned_to = ?${scope.clause}`, [userId, ...scope.params])
+    );
+  }
+
+  static async getProjectAnalytics(viewer: User): Promise<ProjectAnalytics> {
+    const scopeKey = viewer.role === 'admin' ? 'all' : `user:${viewer.id}`;
+
+    return this.cached(`projects:${scopeKey}`, async () => {
+      let whereClause = '';
+      const params: any[] = [];
+
+      if (viewer.role !== 'admin') {
+        whereClause = ' AND p.team_id IN (SELECT team_id FROM team_members WHERE user_id = ?)';
+        params.push(viewer.id);
+      }
+
+      const projectsByStatus: ProjectAnalytics['projectsByStatus'] = { active: 0, completed: 0, archived: 0 };
+      const statusRows = await db.all(
+        `SELECT p.status, COUNT(*) as count FROM projects p WHERE 1=1 ${whereClause} GROUP BY p.status`,
+        params
+      );
+      statusRows.forEach((row: any) => { projectsByStatus[row.status as Project['status']] = Number(row.count); });
+
+      const duration = await db.get(
+        `SELECT AVG(${this.secondsBetween('COALESCE(p.start_date, p.created_at)', 'p.updated_at')} / 86400) as avg_days
+         FROM projects p WHERE p.status = 'completed' ${whereClause}`,
+        params
+      );
+
+      const workloadRows = await db.all(
+        `SELECT tm.id as team_id, tm.name as team_name, COUNT(t.id) as active_tasks
+         FROM teams tm
+         JOIN projects p ON p.team_id = tm.id
+         LEFT JOIN tasks t ON t.project_id = p.id AND t.status != 'completed'
+         WHERE 1=1 ${whereClause}
+         GROUP BY tm.id, tm.name
+         ORDER BY active_tasks DESC`,
+        params
+      );
+
+      return {
+        totalProjects: Object.values(projectsByStatus).reduce((sum, count) => sum + count, 0),
+        activeProjects: projectsByStatus.active,
+        completedProjects: projectsByStatus.completed,
+        projectsByStatus,
+        averageProjectDuration: Math.round(Number(duration?.avg_days || 0) * 10) / 10,
+        teamWorkload: workloadRows.map((row: any) => ({
+          teamId: row.team_id,
+          teamName: row.team_name,
+          activeTasks: Number(row.active_tasks)
+        }))
+      };
+    });
+  }
+
+  static async getUserAnalytics(): Promise<UserAnalytics> {
+    return this.cached('users', async () => {
+      const totals = await db.get(
+        `SELECT COUNT(*) as total,
+                SUM(CASE WHEN is_active = true THEN 1 ELSE 0 END) as active
+         FROM users`
+      );
+
+      const usersByRole: UserAnalytics['usersByRole'] = { admin: 0, manager: 0, member: 0 };
+      const roleRows = await db.all('SELECT role, COUNT(*) as count FROM users GROUP BY role');
+      roleRows.forEach((row: any) => { usersByRole[row.role as User['role']] = Number(row.count); });
+
+      const since = new Date(Date.now() - (ANALYTICS_TREND_DAYS - 1) * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+      const trend = new Map<string, { date: string; activeUsers: number; newUsers: number }>();
+      this.emptyTrend().forEach((_, date) => trend.set(date, { date, activeUsers: 0, newUsers: 0 }));
+
+      const activeRows = await db.all(
+        `SELECT DATE(last_login_at) as date, COUNT(*) as count FROM users
+         WHERE last_login_at >= ? GROUP BY DATE(last_login_at)`,
+        [since]
+      );
+      const newRows = await db.all(
+        `SELECT DATE(created_at) as date, COUNT(*) as count FROM users
+         WHERE created_at >= ? GROUP BY DATE(created_at)`,
+        [since]
+      );
+      activeRows.forEach((row: any) => {
+        const day = trend.get(new Date(row.date).toISOString().slice(0, 10));
+        if (day) day.activeUsers = Number(row.count);
+      });
+      newRows.forEach((row: any) => {
+        const day = trend.get(new Date(row.date).toISOString().slice(0, 10));
+        if (day) day.newUsers = Number(row.count);
+      });
+
+      const performerRows = await db.all(
+        `SELECT u.id, u.name, COUNT(t.id) as completed
+         FROM users u JOIN tasks t ON t.assigned_to = u.id
+         WHERE t.status = 'completed'
+         GROUP BY u.id, u.name
+         ORDER BY completed DESC
+         LIMIT 5`
+      );
+
+      return {
+        totalUsers: Number(totals?.total || 0),
+        activeUsers: Number(totals?.active || 0),
+        usersByRole,
+        userActivityTrend: Array.from(trend.values()),
+        topPerformers: performerRows.map((row: any) => ({
+          userId: row.id,
+          userName: row.name,
+          completedTasks: Number(row.completed)
+        }))
+      };
+    });
+  }
+}
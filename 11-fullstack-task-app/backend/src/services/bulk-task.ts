@@ -0,0 +1,174 @@
+import { randomBytes } from 'crypto';
+import { z } from 'zod';
+import { withTransaction } from '../database';
+import { HttpError } from '../middleware/errors';
+import { AttachmentModel } from '../models/attachment';
+import { ProjectModel } from '../models/project';
+import { bulkTaskChangesSchema, bulkTaskSchema } from '../models/schemas';
+import { TaskModel } from '../models/task';
+import { ActivityService } from './activity';
+import { eventManager } from './event-manager';
+import { NotificationService } from './notification';
+import { Permissions } from './permissions';
+import { RecurrenceService } from './recurrence';
+import type {
+  BulkTaskRequest, BulkTaskResult, Task, TaskBulkEvent, UpdateTaskRequest, User
+} from '../../../shared/types';
+
+// Bulk task operations
+// Items are checked and applied one by one inside a single transaction: an item
+// that is missing, forbidden or blocked is reported and skipped, while an
+// unexpected database error rolls back the whole batch.
+export class BulkTaskService {
+  private static toUpdates(task: Task, changes: z.infer<typeof bulkTaskChangesSchema>): UpdateTaskRequest {
+    const updates: UpdateTaskRequest = {};
+
+    if (changes.status !== undefined) updates.status = changes.status;
+    if (changes.priority !== undefined) updates.priority = changes.priority;
+    if (changes.assignedTo !== undefined) updates.assignedTo = changes.assignedTo;
+    if (changes.projectId !== undefined) updates.projectId = changes.projectId;
+
+    if (changes.addTags || changes.removeTags) {
+      const tags = new Set(task.tags);
+      changes.addTags?.forEach(tag => tags.add(tag));
+      changes.removeTags?.forEach(tag => tags.delete(tag));
+      updates.tags = [...tags];
+    }
+
+    return updates;
+  }
+
+  static async run(request: BulkTaskRequest, user: User): Promise<BulkTaskResult[]> {
+    const validatedData = bulkTaskSchema.parse(request);
+    const changes = validatedData.changes || {};
+
+    if (validatedData.action === 'update' && changes.projectId !== undefined) {
+      await TaskModel.assertProjectAccess(changes.projectId, user);
+    }
+
+    const results: BulkTaskResult[] = [];
+    const updated: Array<{ before: Task; after: Task }> = [];
+    const deleted: Task[] = [];
+    const deletedFilePaths: string[] = [];
+
+    await withTransaction(async () => {
+      for (const taskId of new Set(validatedData.taskIds)) {
+        try {
+          const task = await TaskModel.findAccessible(taskId, user);
+          if (!task) {
+            throw new HttpError(404, 'NOT_FOUND', 'Task not found');
+          }
+
+          if (validatedData.action === 'delete') {
+            await Permissions.assert(Permissions.canDeleteTask(user, task), 'You can only delete tasks you created');
+            deletedFilePaths.push(...await AttachmentModel.findFilePathsByTask(taskId));
+            await TaskModel.delete(taskId);
+
+            deleted.push(task);
+            results.push({ taskId, success: true });
+          } else {
+            await Permissions.assert(
+              Permissions.canEditTask(user, task),
+              'You can only edit tasks you created or are assigned to'
+            );
+            const after = await TaskModel.update(taskId, this.toUpdates(task, changes));
+            if (!after) {
+              throw new HttpError(404, 'NOT_FOUND', 'Task not found');
+            }
+
+            updated.push({ before: task, after });
+            results.push({ taskId, success: true, task: after });
+          }
+        } catch (error) {
+          // Anything else is unexpected and rolls back the whole batch
+          if (error instanceof z.ZodError) {
+            results.push({ taskId, success: false, error: 'Validation failed', code: 'VALIDATION_ERROR' });
+            continue;
+          }
+          if (!(error instanceof HttpError)) throw error;
+
+          results.push({ taskId, success: false, error: error.message, code: error.code });
+        }
+      }
+    });
+
+    // Side effects only once the batch is committed
+    await AttachmentModel.removeUnreferenced(deletedFilePaths);
+
+    for (const { before, after } of updated) {
+      await ActivityService.recordTask('updated', before, after, user);
+
+      if (after.assignedTo && after.assignedTo !== before.assignedTo) {
+        await NotificationService.taskAssigned(after, user);
+      }
+
+      if (after.status === 'completed' && before.status !== 'completed') {
+        await NotificationService.taskCompleted(after, user);
+        await RecurrenceService.taskCompleted(after);
+      }
+    }
+
+    for (const task of deleted) {
+      await ActivityService.recordTask('deleted', task, null, user);
+    }
+
+    await this.broadcast(user, { updated, deleted });
+
+    return results;
+  }
+
+  // One event per affected team rather than one per task. A task moved to a
+  // project of another team is reported as deleted to its former team.
+  static async broadcast(
+    user: User,
+    { created = [], updated = [], deleted = [] }: {
+      created?: Task[];
+      updated?: Array<{ before: Task; after: Task }>;
+      deleted?: Task[];
+    }
+  ): Promise<void> {
+    const teamIds = new Map<number, number | null>();
+    const teamOf = async (projectId: number) => {
+      if (!teamIds.has(projectId)) {
+        teamIds.set(projectId, (await ProjectModel.findById(projectId))?.teamId ?? null);
+      }
+      return teamIds.get(projectId)!;
+    };
+
+    const batches = new Map<number, TaskBulkEvent['data']>();
+    const batchFor = (teamId: number) => {
+      if (!batches.has(teamId)) batches.set(teamId, { created: [], updated: [], deleted: [] });
+      return batches.get(teamId)!;
+    };
+
+    for (const task of created) {
+      const teamId = await teamOf(task.projectId);
+      if (teamId !== null) batchFor(teamId).created.push(task);
+    }
+
+    for (const { before, after } of updated) {
+      const previousTeam = await teamOf(before.projectId);
+      const currentTeam = await teamOf(after.projectId);
+
+      if (currentTeam !== null) batchFor(currentTeam).updated.push(after);
+      if (previousTeam !== null && previousTeam !== currentTeam) batchFor(previousTeam).deleted.push(after.id);
+    }
+
+    for (const task of deleted) {
+      const teamId = await teamOf(task.projectId);
+      if (teamId !== null) batchFor(teamId).deleted.push(task.id);
+    }
+
+    for (const [teamId, data] of batches) {
+      const event: TaskBulkEvent = {
+        id: randomBytes(16).toString('hex'),
+        type: 'tasks_bulk_updated',
+        data,
+        userId: user.id,
+        timestamp: new Date().toISOString()
+      };
+
+      await eventManager.broadcast(event, { teamId });
+    }
+  }
+}
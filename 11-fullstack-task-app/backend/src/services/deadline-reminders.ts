@@ -0,0 +1,135 @@
+import { config } from '../config';
+import { db, redis } from '../database';
+import { NotificationService } from './notification';
+
+// Deadline reminders
+interface SchedulerRun {
+  startedAt: string;
+  finishedAt?: string;
+  tasksChecked: number;
+  remindersSent: number;
+  remindersFailed: number;
+  error?: string;
+}
+
+class DeadlineReminderScheduler {
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private running = false;
+  private lastRun: SchedulerRun | null = null;
+
+  constructor(
+    private intervalMs: number,
+    private windowHours: number
+  ) {}
+
+  start() {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => {
+      this.runOnce().catch(error => console.error('Deadline reminder error:', error));
+    }, this.intervalMs);
+
+    // Run once shortly after boot rather than waiting a full interval
+    setTimeout(() => {
+      this.runOnce().catch(error => console.error('Deadline reminder error:', error));
+    }, 5000);
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  getStatus() {
+    return {
+      enabled: this.timer !== null,
+      intervalMs: this.intervalMs,
+      windowHours: this.windowHours,
+      lastRun: this.lastRun
+    };
+  }
+
+  async runOnce(): Promise<SchedulerRun | null> {
+    // Skip if the previous run on this instance is still going
+    if (this.running) return null;
+    this.running = true;
+
+    const now = new Date();
+    const run: SchedulerRun = { startedAt: now.toISOString(), tasksChecked: 0, remindersSent: 0, remindersFailed: 0 };
+
+    try {
+      const windowEnd = new Date(now.getTime() + this.windowHours * 60 * 60 * 1000);
+      const rows = await db.all(
+        `SELECT * FROM tasks
+         WHERE status != 'completed'
+           AND assigned_to IS NOT NULL
+           AND due_date IS NOT NULL
+           AND due_date <= ?`,
+        [windowEnd.toISOString()]
+      );
+
+      run.tasksChecked = rows.length;
+
+      for (const row of rows) {
+        const dueDate = new Date(row.due_date);
+        const overdue = dueDate.getTime() < now.getTime();
+
+        // Due-soon reminders go out once per due date; overdue ones once per day
+        const dedupeKey = overdue
+          ? `reminder:overdue:${row.id}:${row.assigned_to}:${now.toISOString().slice(0, 10)}`
+          : `reminder:due:${row.id}:${row.assigned_to}:${dueDate.toISOString()}`;
+
+        if (!(await this.claim(dedupeKey))) continue;
+
+        // A failed reminder gives its claim back so the next run retries it,
+        // and does not stop the reminders after it. deliver() throws where
+        // notify() would only log.
+        try {
+          await NotificationService.deliver(row.assigned_to, {
+            type: 'deadline_reminder',
+            title: overdue ? 'Task overdue' : 'Task due soon',
+            message: overdue
+              ? `"${row.title}" was due on ${dueDate.toISOString()}`
+              : `"${row.title}" is due on ${dueDate.toISOString()}`,
+            data: { taskId: row.id, projectId: row.project_id, dueDate: row.due_date, overdue }
+          });
+          run.remindersSent++;
+        } catch (error) {
+          run.remindersFailed++;
+          console.error(`Deadline reminder for task ${row.id} failed:`, error);
+          await this.release(dedupeKey);
+        }
+      }
+    } catch (error: any) {
+      run.error = error?.message || String(error);
+      throw error;
+    } finally {
+      run.finishedAt = new Date().toISOString();
+      this.lastRun = run;
+      this.running = false;
+    }
+
+    return run;
+  }
+
+  // SET NX makes exactly one backend instance win each reminder
+  private async claim(key: string): Promise<boolean> {
+    const result = await redis.set(key, '1', 'EX', 7 * 24 * 60 * 60, 'NX');
+    return result === 'OK';
+  }
+
+  private async release(key: string): Promise<void> {
+    try {
+      await redis.del(key);
+    } catch (error) {
+      console.error('Deadline reminder release error:', error);
+    }
+  }
+}
+
+export const deadlineReminders = new DeadlineReminderScheduler(
+  config.reminderIntervalMs,
+  config.reminderWindowHours
+);
@@ -0,0 +1,307 @@
+import { Redis } from 'bun:redis';
+import { randomBytes } from 'crypto';
+import { config } from '../config';
+import { connection, redis } from '../database';
+import { ProjectModel } from '../models/project';
+import { TeamModel } from '../models/team';
+import { UserModel } from '../models/user';
+import { webhookDispatcher } from './webhook-dispatcher';
+import { SseStream } from '../utils/sse';
+import type { RealtimeEvent, User } from '../../../shared/types';
+
+// Real-time event management
+// Each instance holds its own SSE connections (any number per user, e.g. one per
+// tab) and relays every event through a Redis channel that all instances
+// subscribe to, so users connected to another replica receive it as well.
+// Events are addressed to users or to a team's members, optionally narrowed to
+// connections that follow a single project.
+//
+// Every event is also appended to a bounded Redis stream per recipient. The
+// stream entry id is sent as the SSE `id:`, so a reconnecting client's
+// Last-Event-ID tells us exactly what it missed.
+const REALTIME_CHANNEL = 'taskflow:realtime';
+const EVENT_LOG_MAX_LENGTH = 500; // entries kept per user
+const EVENT_LOG_TTL = 24 * 60 * 60; // seconds after the last event
+const SSE_RETRY_MS = 3000;
+const SSE_HEARTBEAT_MS = 25000;
+
+interface RealtimeTarget {
+  userIds?: number[];
+  teamId?: number;
+  projectId?: number;
+}
+
+export interface RealtimeConnection {
+  id: string;
+  userId: number;
+  isAdmin: boolean;
+  teamIds: Set<number>;
+  projectId?: number | undefined; // only events for this project (plus personal ones) are sent
+  stream: SseStream;
+  pending: Array<{ id?: string | undefined; data: string }> | null; // live events held back during replay
+}
+
+// Messages on the Redis channel: events to deliver (with each recipient's stream
+// entry id), or a notice that some users joined or left teams so their
+// connections must reload their team list
+type RealtimeMessage =
+  | { origin: string; kind: 'event'; event: RealtimeEvent; target: RealtimeTarget; ids: Record<number, string> }
+  | { origin: string; kind: 'membership'; userIds: number[] };
+
+// Stream ids are "<milliseconds>-<sequence>"
+function compareStreamIds(a: string, b: string): number {
+  const [aTime, aSeq] = a.split('-').map(Number);
+  const [bTime, bSeq] = b.split('-').map(Number);
+  return aTime !== bTime ? aTime! - bTime! : aSeq! - bSeq!;
+}
+
+class EventManager {
+  private clients = new Map<number, Set<RealtimeConnection>>();
+  private readonly instanceId = randomBytes(8).toString('hex');
+  private subscriber: Redis | null = null;
+  private heartbeat: ReturnType<typeof setInterval> | null = null;
+
+  async start() {
+    // A connection in subscriber mode cannot run other commands, so it gets its own
+    this.subscriber = new Redis({ url: config.redisUrl });
+    await this.subscriber.subscribe(REALTIME_CHANNEL, (message: string) => this.receive(message));
+
+    // SSE comments keep proxies from closing idle streams and reveal dead clients
+    this.heartbeat = setInterval(() => {
+      this.clients.forEach(connections => {
+        connections.forEach(connection => this.write(connection, ': heartbeat\n\n'));
+      });
+    }, SSE_HEARTBEAT_MS);
+  }
+
+  async stop() {
+    if (this.heartbeat) {
+      clearInterval(this.heartbeat);
+      this.heartbeat = null;
+    }
+
+    if (!this.subscriber) return;
+
+    await this.subscriber.unsubscribe(REALTIME_CHANNEL);
+    this.subscriber.close();
+    this.subscriber = null;
+  }
+
+  // Pass resuming when replay() follows, so nothing slips in before the replay
+  async addClient(user: User, stream: SseStream, projectId?: number, resuming = false): Promise<RealtimeConnection> {
+    const connection: RealtimeConnection = {
+      id: randomBytes(8).toString('hex'),
+      userId: user.id,
+      isAdmin: user.role === 'admin',
+      teamIds: new Set(await TeamModel.getTeamIds(user.id)),
+      projectId,
+      stream,
+      pending: resuming ? [] : null
+    };
+
+    const connections = this.clients.get(user.id) || new Set();
+    connections.add(connection);
+    this.clients.set(user.id, connections);
+
+    this.write(connection, `retry: ${SSE_RETRY_MS}\n\n`);
+
+    return connection;
+  }
+
+  removeClient(connection: RealtimeConnection) {
+    const connections = this.clients.get(connection.userId);
+    if (!connections) return;
+
+    connections.delete(connection);
+    if (connections.size === 0) {
+      this.clients.delete(connection.userId);
+    }
+  }
+
+  async broadcast(event: RealtimeEvent, target: RealtimeTarget) {
+    const ids = await this.log(event, target);
+
+    this.deliver(event, target, ids);
+    this.publish({ origin: this.instanceId, kind: 'event', event, target, ids });
+
+    // Team events also go out to the team's webhooks, from the instance that produced them
+    if (target.teamId !== undefined) {
+      await webhookDispatcher.enqueue(event, target.teamId);
+    }
+  }
+
+  async broadcastToProject(event: RealtimeEvent, projectId: number) {
+    const project = await ProjectModel.findById(projectId);
+    if (project) {
+      await this.broadcast(event, { teamId: project.teamId, projectId });
+    }
+  }
+
+  // Call after team memberships change so open connections pick up the new teams
+  async membershipChanged(userIds: number[]) {
+    await this.refreshTeams(userIds);
+    this.publish({ origin: this.instanceId, kind: 'membership', userIds });
+  }
+
+  // Sends whatever the client missed since lastEventId, or a resync_required
+  // event when that part of its log is no longer available. Live events that
+  // arrive meanwhile are held back and sent afterwards, without duplicates.
+  async replay(connection: RealtimeConnection, lastEventId: string) {
+    connection.pending = connection.pending || [];
+    let lastSent = lastEventId;
+
+    try {
+      const entries = await this.missedEntries(connection.userId, lastEventId);
+
+      if (entries === null) {
+        this.write(connection, this.format({
+          id: randomBytes(16).toString('hex'),
+          type: 'resync_required',
+          data: { lastEventId, message: 'Some events are no longer available, reload your data' },
+          timestamp: new Date().toISOString()
+        }));
+      } else {
+        for (const entry of entries) {
+          if (this.matches(connection, entry.target)) {
+            this.write(connection, this.format(entry.event, entry.id));
+          }
+          lastSent = entry.id;
+        }
+      }
+    } finally {
+      const pending = connection.pending || [];
+      connection.pending = null;
+
+      pending
+        .filter(item => !item.id || compareStreamIds(item.id, lastSent) > 0)
+        .forEach(item => this.write(connection, item.data));
+    }
+  }
+
+  // null means the client has to resync
+  private async missedEntries(userId: number, lastEventId: string) {
+    if (!/^\d+-\d+$/.test(lastEventId)) return null;
+
+    const key = `events:user:${userId}`;
+    const [oldest] = await redis.xrange(key, '-', '+', 'COUNT', '1');
+
+    if (!oldest) {
+      // The log expires once idle for EVENT_LOG_TTL, which means nothing was
+      // missed unless the client's last event is older than that
+      const lastEventTime = Number(lastEventId.split('-')[0]);
+      return Date.now() - lastEventTime > EVENT_LOG_TTL * 1000 ? null : [];
+    }
+
+    // Entries after the client's position were trimmed away
+    if (compareStreamIds(oldest[0], lastEventId) > 0) return null;
+
+    const rows = await redis.xrange(key, `(${lastEventId}`, '+', 'COUNT', String(EVENT_LOG_MAX_LENGTH));
+
+    return rows.map(([id, fields]: [string, string[]]) => {
+      const payload = JSON.parse(fields[fields.indexOf('payload') + 1]!);
+      return { id, event: payload.event as RealtimeEvent, target: payload.target as RealtimeTarget };
+    });
+  }
+
+  // Appends the event to each recipient's log and returns the entry ids
+  private async log(event: RealtimeEvent, target: RealtimeTarget): Promise<Record<number, string>> {
+    const recipients = new Set<number>(target.userIds || []);
+
+    if (target.teamId !== undefined) {
+      (await TeamModel.getMemberIds(target.teamId)).forEach(id => recipients.add(id));
+      (await UserModel.findAdminIds()).forEach(id => recipients.add(id));
+    }
+
+    const ids: Record<number, string> = {};
+    const payload = JSON.stringify({ event, target });
+
+    for (const userId of recipients) {
+      const key = `events:user:${userId}`;
+
+      try {
+        ids[userId] = await redis.xadd(key, 'MAXLEN', '~', String(EVENT_LOG_MAX_LENGTH), '*', 'payload', payload);
+        await redis.expire(key, EVENT_LOG_TTL);
+      } catch (error) {
+        // Live delivery still works; the client just cannot resume past this event
+        console.error('Event log error:', error);
+      }
+    }
+
+    return ids;
+  }
+
+  private publish(message: RealtimeMessage) {
+    redis.publish(REALTIME_CHANNEL, JSON.stringify(message)).catch((error: any) => {
+      console.error('Realtime publish error:', error);
+    });
+  }
+
+  private receive(raw: string) {
+    try {
+      const message: RealtimeMessage = JSON.parse(raw);
+
+      // Our own messages were already handled when they were sent
+      if (message.origin === this.instanceId) return;
+
+      if (message.kind === 'event') {
+        this.deliver(message.event, message.target, message.ids);
+      } else {
+        this.refreshTeams(message.userIds).catch(error => console.error('Realtime membership error:', error));
+      }
+    } catch (error) {
+      console.error('Realtime message error:', error);
+    }
+  }
+
+  private async refreshTeams(userIds: number[]) {
+    for (const userId of userIds) {
+      const connections = this.clients.get(userId);
+      if (!connections) continue;
+
+      const teamIds = new Set(await TeamModel.getTeamIds(userId));
+      connections.forEach(connection => {
+        connection.teamIds = teamIds;
+      });
+    }
+  }
+
+  private matches(connection: RealtimeConnection, target: RealtimeTarget): boolean {
+    if (target.userIds) {
+      return target.userIds.includes(connection.userId);
+    }
+
+    if (target.teamId === undefined) return false;
+    if (!connection.isAdmin && !connection.teamIds.has(target.teamId)) return false;
+
+    return !connection.projectId || !target.projectId || connection.projectId === target.projectId;
+  }
+
+  private format(event: RealtimeEvent, id?: string): string {
+    return `${id ? `id: ${id}\n` : ''}data: ${JSON.stringify(event)}\n\n`;
+  }
+
+  private write(connection: RealtimeConnection, data: string) {
+    if (!connection.stream.write(data)) {
+      this.removeClient(connection);
+    }
+  }
+
+  private deliver(event: RealtimeEvent, target: RealtimeTarget, ids: Record<number, string>) {
+    this.clients.forEach(connections => {
+      connections.forEach(connection => {
+        if (!this.matches(connection, target)) return;
+
+        const id = ids[connection.userId];
+        const data = this.format(event, id);
+
+        if (connection.pending) {
+          connection.pending.push({ id, data });
+        } else {
+          this.write(connection, data);
+        }
+      });
+    });
+  }
+}
+
+export const eventManager = new EventManager();
@@ -0,0 +1,34 @@
+import { createHash } from 'crypto';
+import { mkdir, unlink } from 'fs/promises';
+import { join } from 'path';
+import { config } from '../config';
+
+// File storage
+// Files are stored under the upload directory by the SHA-256 of their content,
+// so identical uploads share one file on disk
+export class FileStorage {
+  static resolve(filePath: string): string {
+    return join(config.uploadDir, filePath);
+  }
+
+  static async save(bytes: Uint8Array): Promise<{ fileName: string; filePath: string }> {
+    const fileName = createHash('sha256').update(bytes).digest('hex');
+    const filePath = join(fileName.slice(0, 2), fileName);
+    const absolutePath = this.resolve(filePath);
+
+    if (!(await Bun.file(absolutePath).exists())) {
+      await mkdir(join(config.uploadDir, fileName.slice(0, 2)), { recursive: true });
+      await Bun.write(absolutePath, bytes);
+    }
+
+    return { fileName, filePath };
+  }
+
+  static async remove(filePath: string): Promise<void> {
+    try {
+      await unlink(this.resolve(filePath));
+    } catch (error: any) {
+      if (error?.code !== 'ENOENT') throw error;
+    }
+  }
+}
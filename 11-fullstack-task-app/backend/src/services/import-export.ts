@@ -0,0 +1,278 @@
+import { withTransaction } from '../database';
+import { HttpError } from '../middleware/errors';
+import { ProjectModel } from '../models/project';
+import { taskImportSchema, taskSchema } from '../models/schemas';
+import { TaskModel } from '../models/task';
+import { TeamModel } from '../models/team';
+import { UserModel } from '../models/user';
+import { ActivityService } from './activity';
+import { BulkTaskService } from './bulk-task';
+import { NotificationService } from './notification';
+import { parseCsv, toCsvRow, unescapeCsvFormula } from '../utils/csv';
+import type {
+  ExportFormat, Task, TaskImportField, TaskImportReport, TaskImportRequest, TaskImportRow, User
+} from '../../../shared/types';
+
+// Import and export
+export const EXPORT_BATCH_SIZE = 100;
+const IMPORT_MAX_ROWS = 5000;
+
+const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  ndjson: 'application/x-ndjson',
+  json: 'application/json'
+};
+
+const TASK_IMPORT_FIELDS: TaskImportField[] = [
+  'title', 'description', 'projectId', 'assigneeEmail', 'status',
+  'priority', 'tags', 'dueDate', 'estimatedHours'
+];
+
+type ExportColumn<T> = [header: string, value: (item: T) => unknown];
+
+// Import target projects: the team their assignees must belong to, or why the
+// importing user cannot add tasks there
+interface ImportProject {
+  teamId?: number;
+  error?: string;
+}
+
+export class ExportService {
+  static parseFormat(value: string | null): ExportFormat {
+    const format = value || 'csv';
+    if (!Object.hasOwn(EXPORT_CONTENT_TYPES, format)) {
+      throw new HttpError(400, 'BAD_REQUEST', 'format must be one of csv, ndjson or json');
+    }
+
+    return format as ExportFormat;
+  }
+
+  // Writes each batch as soon as it is fetched, so large exports never have to
+  // fit in memory. Batches are only pulled as fast as the client reads. The
+  // first one is fetched up front, so a failing query still gets an error
+  // response instead of a truncated download.
+  static async stream<T>(
+    format: ExportFormat,
+    fileName: string,
+    columns: ExportColumn<T>[],
+    batches: AsyncGenerator<T[]>
+  ): Promise<Response> {
+    const encoder = new TextEncoder();
+    let first = true;
+    let prefetched: IteratorResult<T[]> | null = await batches.next();
+
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        if (format === 'csv') controller.enqueue(encoder.encode(toCsvRow(columns.map(([header]) => header))));
+        if (format === 'json') controller.enqueue(encoder.encode('['));
+      },
+
+      async pull(controller) {
+        const { value: batch, done } = prefetched ?? await batches.next();
+        prefetched = null;
+
+        if (done) {
+          if (format === 'json') controller.enqueue(encoder.encode(']'));
+          controller.close();
+          return;
+        }
+
+        let chunk = '';
+        for (const item of batch) {
+          if (format === 'csv') {
+            chunk += toCsvRow(columns.map(([, value]) => value(item)));
+          } else if (format === 'ndjson') {
+            chunk += JSON.stringify(item) + '\n';
+          } else {
+            chunk += (first ? '' : ',') + JSON.stringify(item);
+            first = false;
+          }
+        }
+
+        controller.enqueue(encoder.encode(chunk));
+      },
+
+      async cancel() {
+        await batches.return(undefined);
+      }
+    });
+
+    return new Response(body, {
+      headers: {
+        'Content-Type': EXPORT_CONTENT_TYPES[format],
+        'Content-Disposition': `attachment; filename="${fileName}-${new Date().toISOString().slice(0, 10)}.${format}"`
+      }
+    });
+  }
+}
+
+// CSV import runs in two steps: every row is validated and reported without
+// writing anything, and only a clean file is committed, in one transaction
+export class TaskImportService {
+  static async run(request: TaskImportRequest, user: User): Promise<TaskImportReport> {
+    const { csv, mapping, projectId, dryRun } = taskImportSchema.parse(request);
+
+    const [headers = [], ...records] = parseCsv(csv).filter(row => row.some(cell => cell.trim() !== ''));
+    if (records.length === 0) {
+      throw new HttpError(400, 'EMPTY_IMPORT', 'The CSV has no data rows');
+    }
+    if (records.length > IMPORT_MAX_ROWS) {
+      throw new HttpError(400, 'IMPORT_TOO_LARGE', `At most ${IMPORT_MAX_ROWS} rows can be imported at once`);
+    }
+
+    const columns = this.resolveColumns(headers, mapping);
+    const assignees = new Map<string, number | null>();
+    const projects = new Map<number, ImportProject>();
+
+    const rows: TaskImportRow[] = [];
+    for (const [index, record] of records.entries()) {
+      const { data, errors } = await this.validateRow(record, columns, projectId, user, assignees, projects);
+      rows.push({ row: index + 1, valid: errors.length === 0, errors, ...(data && { data }) });
+    }
+
+    const invalid = rows.filter(row => !row.valid).length;
+    const report: TaskImportReport = {
+      dryRun,
+      committed: false,
+      total: rows.length,
+      valid: rows.length - invalid,
+      invalid,
+      rows
+    };
+
+    if (dryRun) return report;
+
+    if (invalid > 0) {
+      throw new HttpError(422, 'IMPORT_INVALID', `${invalid} row(s) failed validation; nothing was imported`, report);
+    }
+
+    const created = await withTransaction(async () => {
+      const tasks: Task[] = [];
+      for (const row of rows) {
+        tasks.push(await TaskModel.create(row.data!, user));
+      }
+      return tasks;
+    });
+
+    created.forEach((task, index) => { rows[index]!.taskId = task.id; });
+    report.committed = true;
+
+    for (const task of created) {
+      await ActivityService.recordTask('created', null, task, user);
+
+      if (task.assignedTo) {
+        await NotificationService.taskAssigned(task, user);
+      }
+    }
+
+    await BulkTaskService.broadcast(user, { created });
+
+    return report;
+  }
+
+  // Maps each import field to a column index. Without an explicit mapping, a
+  // header with the field's name is used, so exported files import as they are.
+  private static resolveColumns(headers: string[], mapping?: Record<string, string>): Map<TaskImportField, number> {
+    const columns = new Map<TaskImportField, number>();
+    const normalized = headers.map(header => header.trim().toLowerCase());
+
+    for (const [field, header] of Object.entries(mapping || {})) {
+      if (!TASK_IMPORT_FIELDS.includes(field as TaskImportField)) {
+        throw new HttpError(400, 'INVALID_MAPPING', `Unknown import field "${field}"`);
+      }
+
+      const index = normalized.indexOf(header.trim().toLowerCase());
+      if (index === -1) {
+        throw new HttpError(400, 'INVALID_MAPPING', `Column "${header}" is not in the CSV header`);
+      }
+
+      columns.set(field as TaskImportField, index);
+    }
+
+    for (const field of TASK_IMPORT_FIELDS) {
+      const index = normalized.indexOf(field.toLowerCase());
+      if (!columns.has(field) && index !== -1) columns.set(field, index);
+    }
+
+    if (!columns.has('title')) {
+      throw new HttpError(400, 'INVALID_MAPPING', 'No column is mapped to title');
+    }
+
+    return columns;
+  }
+
+  private static async validateRow(
+    record: string[],
+    columns: Map<TaskImportField, number>,
+    defaultProjectId: number | undefined,
+    user: User,
+    assignees: Map<string, number | null>,
+    projects: Map<number, ImportProject>
+  ): Promise<{ data?: TaskImportRow['data']; errors: string[] }> {
+    const cell = (field: TaskImportField) => {
+      const index = columns.get(field);
+      const value = index === undefined ? '' : unescapeCsvFormula((record[index] ?? '').trim());
+      return value === '' ? undefined : value;
+    };
+    const number = (value?: string) => value === undefined ? undefined : Number(value);
+
+    const errors: string[] = [];
+    const dueDate = cell('dueDate');
+
+    const candidate = {
+      title: cell('title'),
+      description: cell('description'),
+      projectId: number(cell('projectId')) ?? defaultProjectId,
+      status: cell('status'),
+      priority: cell('priority'),
+      tags: cell('tags')?.split(',').map(tag => tag.trim()).filter(Boolean),
+      // Plain dates such as 2026-10-31 are accepted as well as full timestamps
+      dueDate: dueDate && !isNaN(Date.parse(dueDate)) ? new Date(dueDate).toISOString() : dueDate,
+      estimatedHours: number(cell('estimatedHours'))
+    };
+
+    const parsed = taskSchema.safeParse(candidate);
+    if (!parsed.success) {
+      errors.push(...parsed.error.issues.map(issue => `${issue.path.join('.') || 'row'}: ${issue.message}`));
+      return { errors };
+    }
+
+    const projectId = parsed.data.projectId;
+    if (!projects.has(projectId)) {
+      try {
+        await TaskModel.assertProjectAccess(projectId, user);
+        projects.set(projectId, { teamId: (await ProjectModel.findById(projectId))!.teamId });
+      } catch (error) {
+        if (!(error instanceof HttpError)) throw error;
+        projects.set(projectId, { error: error.message });
+      }
+    }
+
+    const project = projects.get(projectId)!;
+    if (project.error) {
+      errors.push(`projectId: ${project.error}`);
+      return { data: parsed.data, errors };
+    }
+
+    // Assignees are looked up among the project's team only, and the error is the
+    // same whether or not the address has an account, so imports cannot probe emails
+    const email = cell('assigneeEmail')?.toLowerCase();
+    if (email && project.teamId !== undefined) {
+      const key = `${project.teamId}:${email}`;
+      if (!assignees.has(key)) {
+        const assignee = await UserModel.findByEmail(email);
+        const isMember = !!assignee?.isActive && !!(await TeamModel.getMembership(project.teamId, assignee.id));
+        assignees.set(key, isMember ? assignee!.id : null);
+      }
+
+      const assigneeId = assignees.get(key);
+      if (assigneeId) {
+        parsed.data.assignedTo = assigneeId;
+      } else {
+        errors.push(`assigneeEmail: ${email} is not a member of the project's team`);
+      }
+    }
+
+    return { data: parsed.data, errors };
+  }
+}
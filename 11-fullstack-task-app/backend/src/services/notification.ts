@@ -0,0 +1,81 @@
+import { randomBytes } from 'crypto';
+import { NotificationModel } from '../models/notification';
+import { eventManager } from './event-manager';
+import type { Comment, Notification, NotificationEvent, Task, User } from '../../../shared/types';
+
+export class NotificationService {
+  // Stores one notification per recipient and pushes it over SSE
+  static async notify(
+    recipientIds: Array<number | undefined>,
+    actor: User | null,
+    notification: Pick<Notification, 'type' | 'title' | 'message' | 'data'>
+  ): Promise<number> {
+    // Nobody needs to be told about their own actions
+    const recipients = new Set(
+      recipientIds.filter((id): id is number => id !== undefined && id !== null && id !== actor?.id)
+    );
+    let delivered = 0;
+
+    for (const userId of recipients) {
+      try {
+        await this.deliver(userId, notification);
+        delivered++;
+      } catch (error) {
+        // A failed notification must never fail the request that triggered it
+        console.error('Notification error:', error);
+      }
+    }
+
+    return delivered;
+  }
+
+  // Stores a notification for one user, throwing if that fails. Once stored it
+  // counts as delivered: the SSE push is best effort, as clients reload the list.
+  static async deliver(
+    userId: number,
+    notification: Pick<Notification, 'type' | 'title' | 'message' | 'data'>
+  ): Promise<Notification> {
+    const created = await NotificationModel.create({ ...notification, userId });
+
+    const event: NotificationEvent = {
+      id: randomBytes(16).toString('hex'),
+      type: 'notification',
+      data: created,
+      userId,
+      timestamp: new Date().toISOString()
+    };
+    await eventManager.broadcast(event, { userIds: [userId] })
+      .catch(error => console.error('Notification push error:', error));
+
+    return created;
+  }
+
+  static async taskAssigned(task: Task, actor: User): Promise<void> {
+    await this.notify([task.assignedTo], actor, {
+      type: 'task_assigned',
+      title: 'Task assigned to you',
+      message: `${actor.name} assigned you "${task.title}"`,
+      data: { taskId: task.id, projectId: task.projectId }
+    });
+  }
+
+  static async taskCompleted(task: Task, actor: User): Promise<void> {
+    await this.notify([task.createdById, task.assignedTo], actor, {
+      type: 'task_completed',
+      title: 'Task completed',
+      message: `${actor.name} completed "${task.title}"`,
+      data: { taskId: task.id, projectId: task.projectId }
+    });
+  }
+
+  static async commentAdded(task: Task, comment: Comment, actor: User): Promise<void> {
+    const preview = comment.content.length > 100 ? `${comment.content.substring(0, 100)}...` : comment.content;
+
+    await this.notify([task.createdById, task.assignedTo], actor, {
+      type: 'comment_added',
+      title: `New comment on "${task.title}"`,
+      message: `${actor.name}: ${preview}`,
+      data: { taskId: task.id, projectId: task.projectId, commentId: comment.id }
+    });
+  }
+}
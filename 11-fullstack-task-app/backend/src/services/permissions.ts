@@ -0,0 +1,57 @@
+import { HttpError } from '../middleware/errors';
+import { ProjectModel } from '../models/project';
+import { TeamModel } from '../models/team';
+import type { Task, TaskSeries, TimeEntry, User } from '../../../shared/types';
+
+// Authorization rules
+// Global roles: admins can do anything, managers manage the projects and tasks of
+// teams they belong to, members may only change tasks they created or are assigned to.
+// Team owners and team admins get manager rights within their own team.
+export class Permissions {
+  static async isTeamManager(user: User, teamId: number): Promise<boolean> {
+    if (user.role === 'admin') return true;
+
+    const membership = await TeamModel.getMembership(teamId, user.id);
+    if (!membership) return false;
+
+    return user.role === 'manager' || membership.role === 'owner' || membership.role === 'admin';
+  }
+
+  static async canManageProjects(user: User, teamId: number): Promise<boolean> {
+    return this.isTeamManager(user, teamId);
+  }
+
+  static async canEditTask(user: User, task: Task): Promise<boolean> {
+    if (task.createdById === user.id || task.assignedTo === user.id) return true;
+
+    const project = await ProjectModel.findById(task.projectId);
+    return !!project && await this.isTeamManager(user, project.teamId);
+  }
+
+  static async canDeleteTask(user: User, task: Task): Promise<boolean> {
+    if (task.createdById === user.id) return true;
+
+    const project = await ProjectModel.findById(task.projectId);
+    return !!project && await this.isTeamManager(user, project.teamId);
+  }
+
+  static async canManageSeries(user: User, series: TaskSeries): Promise<boolean> {
+    if (series.createdBy === user.id) return true;
+
+    const project = await ProjectModel.findById(series.projectId);
+    return !!project && await this.isTeamManager(user, project.teamId);
+  }
+
+  static async canManageTimeEntry(user: User, entry: TimeEntry, task: Task): Promise<boolean> {
+    if (entry.userId === user.id) return true;
+
+    const project = await ProjectModel.findById(task.projectId);
+    return !!project && await this.isTeamManager(user, project.teamId);
+  }
+
+  static async assert(allowed: boolean | Promise<boolean>, message: string): Promise<void> {
+    if (!(await allowed)) {
+      throw new HttpError(403, 'FORBIDDEN', message);
+    }
+  }
+}
@@ -0,0 +1,142 @@
+import { randomBytes } from 'crypto';
+import { redis } from '../database';
+import { TeamModel } from '../models/team';
+import { UserModel } from '../models/user';
+import { eventManager } from './event-manager';
+import type { PresenceUser, User, UserPresenceEvent } from '../../../shared/types';
+
+// Presence
+// Every SSE connection is registered in Redis sorted sets scored by expiry time,
+// one per user and one per followed project, so all instances share the same
+// view and connections of a crashed instance simply age out. Going offline is
+// only announced after a grace period, so a quick reconnect does not flap.
+const PRESENCE_TTL_MS = 90 * 1000;
+const PRESENCE_REFRESH_MS = 30 * 1000;
+const PRESENCE_GRACE_MS = 10 * 1000;
+
+class PresenceTracker {
+  private connections = new Map<string, { user: User; projectId?: number | undefined }>();
+  private offlineTimers = new Map<number, ReturnType<typeof setTimeout>>();
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  start() {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => {
+      for (const [connectionId, { user, projectId }] of this.connections) {
+        this.touch(connectionId, user.id, projectId).catch(error => console.error('Presence refresh error:', error));
+      }
+    }, PRESENCE_REFRESH_MS);
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+
+    this.offlineTimers.forEach(timer => clearTimeout(timer));
+    this.offlineTimers.clear();
+  }
+
+  async connected(connectionId: string, user: User, projectId?: number): Promise<void> {
+    this.connections.set(connectionId, { user, projectId });
+
+    const pendingOffline = this.offlineTimers.get(user.id);
+    if (pendingOffline) {
+      clearTimeout(pendingOffline);
+      this.offlineTimers.delete(user.id);
+    }
+
+    await this.touch(connectionId, user.id, projectId);
+
+    // Only the connection that flips the flag announces the user
+    const announced = await redis.set(`presence:online:${user.id}`, '1', 'PX', PRESENCE_TTL_MS, 'NX');
+    if (announced) {
+      await this.announce('user_online', user);
+    }
+  }
+
+  async disconnected(connectionId: string): Promise<void> {
+    const entry = this.connections.get(connectionId);
+    if (!entry) return;
+
+    this.connections.delete(connectionId);
+    const { user, projectId } = entry;
+
+    await redis.zrem(`presence:user:${user.id}`, connectionId);
+    if (projectId) {
+      await redis.zrem(`presence:project:${projectId}`, `${user.id}:${connectionId}`);
+    }
+
+    const existing = this.offlineTimers.get(user.id);
+    if (existing) clearTimeout(existing);
+
+    this.offlineTimers.set(user.id, setTimeout(() => {
+      this.offlineTimers.delete(user.id);
+      this.checkOffline(user).catch(error => console.error('Presence error:', error));
+    }, PRESENCE_GRACE_MS));
+  }
+
+  // Users with a live connection following the project
+  async viewers(projectId: number): Promise<PresenceUser[]> {
+    const key = `presence:project:${projectId}`;
+    await redis.zremrangebyscore(key, '-inf', Date.now());
+
+    const members: string[] = await redis.zrangebyscore(key, Date.now(), '+inf');
+    const userIds = [...new Set(members.map(member => parseInt(member.split(':')[0]!)))];
+
+    const viewers: PresenceUser[] = [];
+    for (const userId of userIds) {
+      const user = await UserModel.findById(userId);
+      if (user) {
+        viewers.push({ userId: user.id, name: user.name, avatar: user.avatar });
+      }
+    }
+
+    return viewers;
+  }
+
+  private async touch(connectionId: string, userId: number, projectId?: number): Promise<void> {
+    const expiresAt = Date.now() + PRESENCE_TTL_MS;
+
+    await redis.zadd(`presence:user:${userId}`, expiresAt, connectionId);
+    await redis.pexpire(`presence:user:${userId}`, PRESENCE_TTL_MS);
+    await redis.pexpire(`presence:online:${userId}`, PRESENCE_TTL_MS);
+
+    if (projectId) {
+      await redis.zadd(`presence:project:${projectId}`, expiresAt, `${userId}:${connectionId}`);
+      await redis.pexpire(`presence:project:${projectId}`, PRESENCE_TTL_MS);
+    }
+  }
+
+  private async checkOffline(user: User): Promise<void> {
+    const key = `presence:user:${user.id}`;
+    await redis.zremrangebyscore(key, '-inf', Date.now());
+
+    // Still connected somewhere, possibly on another instance
+    if ((await redis.zcard(key)) > 0) return;
+
+    if (await redis.del(`presence:online:${user.id}`)) {
+      await this.announce('user_offline', user);
+    }
+  }
+
+  // Presence is shown to everyone who shares a team with the user
+  private async announce(type: UserPresenceEvent['type'], user: User): Promise<void> {
+    const event: UserPresenceEvent = {
+      id: randomBytes(16).toString('hex'),
+      type,
+      data: { userId: user.id, name: user.name, avatar: user.avatar },
+      userId: user.id,
+      timestamp: new Date().toISOString()
+    };
+
+    const teammateIds = (await TeamModel.getTeammateIds(user.id)).filter(id => id !== user.id);
+    if (teammateIds.length > 0) {
+      await eventManager.broadcast(event, { userIds: teammateIds });
+    }
+  }
+}
+
+export const presenceTracker = new PresenceTracker();
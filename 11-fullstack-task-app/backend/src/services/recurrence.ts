@@ -0,0 +1,172 @@
+import { randomBytes } from 'crypto';
+import { config } from '../config';
+import { withTransaction } from '../database';
+import { HttpError } from '../middleware/errors';
+import { TaskModel } from '../models/task';
+import { TaskSeriesModel } from '../models/task-series';
+import { UserModel } from '../models/user';
+import { ActivityService } from './activity';
+import { eventManager } from './event-manager';
+import { NotificationService } from './notification';
+import { nextOccurrence } from '../utils/recurrence';
+import type { Task, TaskSeries } from '../../../shared/types';
+
+// Recurring tasks
+// The next occurrence of a series is generated when the latest one is
+// completed, or by the scheduler shortly before it comes due, whichever happens
+// first. Occurrences copy the content of the latest one, so edits carry forward.
+export class RecurrenceService {
+  static async generateNext(series: TaskSeries): Promise<Task | null> {
+    if (!series.isActive || !series.nextDueAt) return null;
+
+    const occurrences = await TaskModel.findBySeries(series.id);
+    const template = occurrences[occurrences.length - 1];
+    if (!template) return null;
+
+    const dueAt = new Date(series.nextDueAt);
+    const following = nextOccurrence(series, new Date(series.anchorAt), dueAt, series.occurrenceCount + 1);
+
+    let task: Task | null = null;
+    try {
+      task = await withTransaction(async () => {
+        const created = await TaskModel.createOccurrence(template, series.id, dueAt.toISOString());
+
+        if (!(await TaskSeriesModel.advance(series, created.id, following?.toISOString() ?? null))) {
+          throw new HttpError(409, 'SERIES_ADVANCED', 'Occurrence was already generated');
+        }
+
+        return created;
+      });
+    } catch (error) {
+      // Another request or instance got there first
+      if (error instanceof HttpError && error.code === 'SERIES_ADVANCED') return null;
+      throw error;
+    }
+
+    const creator = await UserModel.findById(series.createdBy);
+    if (creator) {
+      await ActivityService.recordTask('created', null, task, creator);
+
+      if (task.assignedTo) {
+        await NotificationService.taskAssigned(task, creator);
+      }
+    }
+
+    await eventManager.broadcastToProject({
+      id: randomBytes(16).toString('hex'),
+      type: 'task_created',
+      data: task,
+      userId: series.createdBy,
+      timestamp: new Date().toISOString()
+    }, task.projectId);
+
+    return task;
+  }
+
+  // Completing an older occurrence does nothing; the series has already moved on
+  static async taskCompleted(task: Task): Promise<void> {
+    if (!task.seriesId) return;
+
+    try {
+      const series = await TaskSeriesModel.findById(task.seriesId);
+
+      if (series && series.lastTaskId === task.id) {
+        await this.generateNext(series);
+      }
+    } catch (error) {
+      // The completion itself already happened; the scheduler will catch up
+      console.error('Recurrence error:', error);
+    }
+  }
+}
+
+interface RecurrenceRun {
+  startedAt: string;
+  finishedAt?: string;
+  seriesChecked: number;
+  tasksCreated: number;
+  seriesFailed: number;
+  error?: string;
+}
+
+class RecurrenceScheduler {
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private running = false;
+  private lastRun: RecurrenceRun | null = null;
+
+  constructor(
+    private intervalMs: number,
+    private leadHours: number
+  ) {}
+
+  start() {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => {
+      this.runOnce().catch(error => console.error('Recurrence scheduler error:', error));
+    }, this.intervalMs);
+
+    setTimeout(() => {
+      this.runOnce().catch(error => console.error('Recurrence scheduler error:', error));
+    }, 5000);
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  getStatus() {
+    return {
+      enabled: this.timer !== null,
+      intervalMs: this.intervalMs,
+      leadHours: this.leadHours,
+      lastRun: this.lastRun
+    };
+  }
+
+  // Instances may run concurrently: TaskSeriesModel.advance lets only one of
+  // them create each occurrence
+  async runOnce(): Promise<RecurrenceRun | null> {
+    if (this.running) return null;
+    this.running = true;
+
+    const now = new Date();
+    const run: RecurrenceRun = { startedAt: now.toISOString(), seriesChecked: 0, tasksCreated: 0, seriesFailed: 0 };
+
+    try {
+      const horizon = new Date(now.getTime() + this.leadHours * 60 * 60 * 1000);
+      const due = await TaskSeriesModel.findDue(horizon.toISOString());
+
+      run.seriesChecked = due.length;
+
+      // One broken series must not hold up the others; it is retried next run
+      for (const series of due) {
+        try {
+          if (await RecurrenceService.generateNext(series)) {
+            run.tasksCreated++;
+          }
+        } catch (error) {
+          run.seriesFailed++;
+          console.error(`Recurring task series ${series.id} failed:`, error);
+        }
+      }
+    } catch (error: any) {
+      run.error = error?.message || String(error);
+      throw error;
+    } finally {
+      run.finishedAt = new Date().toISOString();
+      this.lastRun = run;
+      this.running = false;
+    }
+
+    return run;
+  }
+}
+
+export const recurringTasks = new RecurrenceScheduler(
+  config.recurrenceIntervalMs,
+  config.recurrenceLeadHours
+);
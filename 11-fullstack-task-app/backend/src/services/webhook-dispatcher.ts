@@ -0,0 +1,181 @@
+import { randomBytes } from 'crypto';
+import { config } from '../config';
+import { WebhookModel } from '../models/webhook';
+import { WebhookDeliveryModel } from '../models/webhook-delivery';
+import { nextWebhookAttempt, sendWebhook } from '../utils/webhook-delivery';
+import type {
+  RealtimeEvent, User, Webhook, WebhookDelivery, WebhookEventType, WebhookPayload
+} from '../../../shared/types';
+
+// Outgoing webhooks
+// Every team-scoped realtime event is queued as one delivery per subscribed
+// webhook, then POSTed with an HMAC signature. Failed attempts are retried with
+// exponential backoff until WEBHOOK_MAX_ATTEMPTS, and the log keeps the outcome
+// of the latest attempt.
+const WEBHOOK_BATCH_SIZE = 20;
+const WEBHOOK_LEASE_MS = 60 * 1000;
+const WEBHOOK_RESPONSE_LIMIT = 1000; // bytes of a successful response body kept
+
+class WebhookDispatcher {
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private running = false;
+
+  constructor(
+    private intervalMs: number,
+    private maxAttempts: number,
+    private timeoutMs: number
+  ) {}
+
+  start() {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => {
+      this.processDue().catch(error => console.error('Webhook dispatch error:', error));
+    }, this.intervalMs);
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  getStatus() {
+    return {
+      enabled: this.timer !== null,
+      intervalMs: this.intervalMs,
+      maxAttempts: this.maxAttempts
+    };
+  }
+
+  // Called by EventManager.broadcast; a failure here must not fail the broadcast
+  async enqueue(event: RealtimeEvent, teamId: number): Promise<void> {
+    try {
+      const webhooks = await WebhookModel.findSubscribed(teamId, event.type);
+      if (webhooks.length === 0) return;
+
+      const payload: WebhookPayload = {
+        id: event.id,
+        type: event.type as WebhookEventType,
+        teamId,
+        ...(event.userId !== undefined && { actorId: event.userId }),
+        timestamp: event.timestamp,
+        data: event.data
+      };
+
+      for (const webhook of webhooks) {
+        await WebhookDeliveryModel.create(webhook.id, payload);
+      }
+
+      // Deliver right away rather than on the next tick
+      this.processDue().catch(error => console.error('Webhook dispatch error:', error));
+    } catch (error) {
+      console.error('Webhook enqueue error:', error);
+    }
+  }
+
+  async ping(webhook: Webhook, user: User): Promise<WebhookDelivery> {
+    const delivery = await WebhookDeliveryModel.create(webhook.id, {
+      id: randomBytes(16).toString('hex'),
+      type: 'ping',
+      teamId: webhook.teamId,
+      actorId: user.id,
+      timestamp: new Date().toISOString(),
+      data: { message: 'TaskFlow webhook test' }
+    });
+
+    await this.deliverNow(delivery);
+
+    return (await WebhookDeliveryModel.findById(delivery.id)) || delivery;
+  }
+
+  // Queues the same payload again as a new delivery, keeping the old one in the log
+  async redeliver(delivery: WebhookDelivery): Promise<WebhookDelivery> {
+    const copy = await WebhookDeliveryModel.create(delivery.webhookId, delivery.payload);
+
+    await this.deliverNow(copy);
+
+    return (await WebhookDeliveryModel.findById(copy.id)) || copy;
+  }
+
+  // Attempts one new delivery without working through the rest of the queue.
+  // The claim still applies, so a concurrent processDue() cannot send it twice.
+  private async deliverNow(delivery: WebhookDelivery): Promise<void> {
+    const leaseUntil = new Date(Date.now() + WEBHOOK_LEASE_MS).toISOString();
+    if (await WebhookDeliveryModel.claim(delivery, leaseUntil)) {
+      await this.attempt(delivery);
+    }
+  }
+
+  // Other instances may process the same queue; claim() gives each delivery to one of them
+  async processDue(): Promise<number> {
+    if (this.running) return 0;
+    this.running = true;
+
+    let attempted = 0;
+
+    try {
+      const due = await WebhookDeliveryModel.findDue(new Date().toISOString(), WEBHOOK_BATCH_SIZE);
+
+      for (const delivery of due) {
+        const leaseUntil = new Date(Date.now() + WEBHOOK_LEASE_MS).toISOString();
+        if (!(await WebhookDeliveryModel.claim(delivery, leaseUntil))) continue;
+
+        await this.attempt(delivery);
+        attempted++;
+      }
+    } finally {
+      this.running = false;
+    }
+
+    return attempted;
+  }
+
+  private async attempt(delivery: WebhookDelivery): Promise<void> {
+    const webhook = await WebhookModel.findById(delivery.webhookId, { includeSecret: true });
+
+    if (!webhook?.isActive || !webhook.secret) {
+      await WebhookDeliveryModel.recordAttempt(delivery.id, { status: 'failed', error: 'Webhook is disabled' });
+      return;
+    }
+
+    const result = await sendWebhook({
+      url: webhook.url,
+      secret: webhook.secret,
+      body: JSON.stringify(delivery.payload),
+      headers: {
+        'User-Agent': 'TaskFlow-Webhooks/1.0',
+        'X-TaskFlow-Event': delivery.eventType,
+        'X-TaskFlow-Delivery': String(delivery.id)
+      },
+      timeoutMs: this.timeoutMs,
+      responseLimit: WEBHOOK_RESPONSE_LIMIT,
+      allowPrivate: config.webhookAllowPrivateUrls
+    });
+
+    if (result.ok) {
+      await WebhookDeliveryModel.recordAttempt(delivery.id, {
+        status: 'succeeded',
+        statusCode: result.statusCode,
+        responseBody: result.responseBody
+      });
+      return;
+    }
+
+    const nextAttemptAt = nextWebhookAttempt(delivery.attempts + 1, this.maxAttempts);
+
+    await WebhookDeliveryModel.recordAttempt(delivery.id, {
+      status: nextAttemptAt ? 'pending' : 'failed',
+      statusCode: result.statusCode,
+      error: result.error,
+      nextAttemptAt
+    });
+  }
+}
+
+export const webhookDispatcher = new WebhookDispatcher(
+  config.webhookIntervalMs,
+  config.webhookMaxAttempts,
+  config.webhookTimeoutMs
+);
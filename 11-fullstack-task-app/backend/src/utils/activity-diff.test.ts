@@ -0,0 +1,34 @@
+import { describe, expect, test } from 'bun:test';
+import { diffFields } from './activity-diff';
+
+interface Item {
+  title: string;
+  tags?: string[];
+  dueDate?: string;
+}
+
+const FIELDS: Array<keyof Item> = ['title', 'tags', 'dueDate'];
+
+describe('diffFields', () => {
+  test('records only the fields that changed', () => {
+    const before: Item = { title: 'Draft', tags: ['a', 'b'] };
+    const after: Item = { title: 'Final', tags: ['a', 'b'] };
+
+    expect(diffFields(before, after, FIELDS)).toEqual([{ field: 'title', from: 'Draft', to: 'Final' }]);
+  });
+
+  test('compares arrays by content', () => {
+    expect(diffFields<Item>({ title: 'x', tags: ['a'] }, { title: 'x', tags: ['a', 'b'] }, FIELDS))
+      .toEqual([{ field: 'tags', from: ['a'], to: ['a', 'b'] }]);
+  });
+
+  test('treats absent fields and missing sides as null', () => {
+    expect(diffFields<Item>({ title: 'x' }, { title: 'x', dueDate: '2026-01-01' }, FIELDS))
+      .toEqual([{ field: 'dueDate', from: null, to: '2026-01-01' }]);
+
+    expect(diffFields<Item>(null, { title: 'New' }, FIELDS))
+      .toEqual([{ field: 'title', from: null, to: 'New' }]);
+    expect(diffFields<Item>({ title: 'Old' }, null, FIELDS))
+      .toEqual([{ field: 'title', from: 'Old', to: null }]);
+  });
+});
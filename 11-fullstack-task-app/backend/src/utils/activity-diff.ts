@@ -0,0 +1,28 @@
+/**
+ * Field-level diffs for the activity history
+ *
+ * Values are compared by their JSON form, so arrays such as tags only count as
+ * changed when their contents differ. A missing side (creation or deletion) and
+ * an absent field are both recorded as null.
+ */
+
+import type { ActivityChange } from '../../../shared/types';
+
+export function diffFields<T extends object>(
+  before: T | null,
+  after: T | null,
+  fields: Array<keyof T & string>
+): ActivityChange[] {
+  const changes: ActivityChange[] = [];
+
+  for (const field of fields) {
+    const from = before?.[field] ?? null;
+    const to = after?.[field] ?? null;
+
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      changes.push({ field, from, to });
+    }
+  }
+
+  return changes;
+}
@@ -0,0 +1,54 @@
+import { describe, expect, test } from 'bun:test';
+import { escapeCsvValue, parseCsv, toCsvRow, unescapeCsvFormula } from './csv';
+
+describe('toCsvRow', () => {
+  test('quotes fields with commas, quotes or line breaks', () => {
+    expect(toCsvRow(['plain', 'a,b', 'say "hi"', 'two\nlines'])).toBe('plain,"a,b","say ""hi""","two\nlines"\r\n');
+  });
+
+  test('writes empty cells for missing values and ISO strings for dates', () => {
+    expect(toCsvRow([null, undefined, 0, new Date('2026-03-01T09:30:00Z')])).toBe(',,0,2026-03-01T09:30:00.000Z\r\n');
+  });
+});
+
+describe('escapeCsvValue', () => {
+  test('leaves ordinary values alone', () => {
+    expect(escapeCsvValue('Write docs')).toBe('Write docs');
+    expect(escapeCsvValue(1.5)).toBe('1.5');
+  });
+
+  test('neutralises text that spreadsheets would run as a formula', () => {
+    expect(escapeCsvValue('=HYPERLINK("http://x")')).toBe(`"'=HYPERLINK(""http://x"")"`);
+    expect(escapeCsvValue('+1')).toBe("'+1");
+    expect(escapeCsvValue('-list item')).toBe("'-list item");
+    expect(escapeCsvValue('@SUM(A1)')).toBe("'@SUM(A1)");
+  });
+
+  test('keeps negative numbers numeric', () => {
+    expect(escapeCsvValue(-2)).toBe('-2');
+  });
+});
+
+describe('unescapeCsvFormula', () => {
+  test('strips the apostrophe added in front of formula-like text only', () => {
+    expect(unescapeCsvFormula("'=1+1")).toBe('=1+1');
+    expect(unescapeCsvFormula("'quoted'")).toBe("'quoted'");
+    expect(unescapeCsvFormula('plain')).toBe('plain');
+  });
+
+  test('round-trips exported cells', () => {
+    const [[cell]] = parseCsv(toCsvRow(['=cmd|calc']));
+    expect(unescapeCsvFormula(cell!)).toBe('=cmd|calc');
+  });
+});
+
+describe('parseCsv', () => {
+  test('reads back what toCsvRow writes', () => {
+    const values = ['id', 'a,b', 'say "hi"', 'two\r\nlines', ''];
+    expect(parseCsv(toCsvRow(values) + toCsvRow(['1', '2']))).toEqual([values, ['1', '2']]);
+  });
+
+  test('ignores a byte order mark and accepts bare line feeds', () => {
+    expect(parseCsv('\ufefftitle,status\nOne,todo\n')).toEqual([['title', 'status'], ['One', 'todo']]);
+  });
+});
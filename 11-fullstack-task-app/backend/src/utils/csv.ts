@@ -0,0 +1,73 @@
+/**
+ * Minimal CSV helpers (RFC 4180): fields containing commas, quotes or line
+ * breaks are quoted, and embedded quotes are doubled
+ *
+ * Spreadsheets run cells starting with =, +, - or @ as formulas, so text
+ * values starting that way are written with a leading apostrophe, which
+ * spreadsheets hide and the importer strips again.
+ */
+
+const FORMULA_START = /^[=+\-@]/;
+
+export function escapeCsvValue(value: unknown): string {
+  if (value === null || value === undefined) return '';
+
+  let text = value instanceof Date ? value.toISOString() : String(value);
+  if (typeof value === 'string' && FORMULA_START.test(text)) text = `'${text}`;
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// Reverses the apostrophe escapeCsvValue puts in front of formula-like text
+export function unescapeCsvFormula(value: string): string {
+  return value.startsWith("'") && FORMULA_START.test(value.slice(1)) ? value.slice(1) : value;
+}
+
+export function toCsvRow(values: unknown[]): string {
+  return values.map(escapeCsvValue).join(',') + '\r\n';
+}
+
+// Splits CSV text into rows of raw cell values. Quoted cells may contain
+// commas, doubled quotes and line breaks; a leading byte order mark is ignored.
+export function parseCsv(text: string): string[][] {
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (quoted) {
+      if (char !== '"') {
+        cell += char;
+      } else if (input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else {
+        quoted = false;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows;
+}
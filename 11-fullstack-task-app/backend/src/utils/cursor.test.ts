@@ -0,0 +1,26 @@
+import { describe, expect, test } from 'bun:test';
+import { decodeCursor, encodeCursor } from './cursor';
+
+interface Position {
+  sortBy: string;
+  value: string;
+  id: number;
+}
+
+const isPosition = (cursor: any) => typeof cursor.id === 'number' && typeof cursor.sortBy === 'string';
+
+describe('pagination cursors', () => {
+  test('round-trip timestamps with full precision', () => {
+    const position: Position = { sortBy: 'createdAt', value: '2026-03-01 12:00:00.123456', id: 7 };
+    const encoded = encodeCursor(position);
+
+    expect(encoded).toMatch(/^[A-Za-z0-9_-]+$/);
+    expect(decodeCursor<Position>(encoded, isPosition)).toEqual(position);
+  });
+
+  test('reject malformed or unexpected payloads', () => {
+    expect(decodeCursor('not base64 json', isPosition)).toBeNull();
+    expect(decodeCursor(encodeCursor({ sortBy: 'createdAt' }), isPosition)).toBeNull();
+    expect(decodeCursor(Buffer.from('null').toString('base64url'), isPosition)).toBeNull();
+  });
+});
@@ -0,0 +1,21 @@
+/**
+ * Opaque keyset pagination cursors
+ *
+ * A cursor is the JSON of the last row's sort position, base64url encoded so it
+ * travels safely in a query string. Clients must treat it as opaque; decoding
+ * only checks that the payload still has the expected shape.
+ */
+
+export function encodeCursor(cursor: object): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+// The decoded cursor, or null when the value is malformed or fails `isValid`
+export function decodeCursor<T>(value: string, isValid: (cursor: any) => boolean): T | null {
+  try {
+    const cursor = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+    return cursor !== null && typeof cursor === 'object' && isValid(cursor) ? cursor : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,35 @@
+import { describe, expect, test } from 'bun:test';
+import { wouldCreateCycle } from './dependency-graph';
+
+// Builds a loader over a fixed list of [blocker, blocked] edges
+function graph(edges: Array<[number, number]>) {
+  return async (blockerIds: number[]) =>
+    edges.filter(([blocker]) => blockerIds.includes(blocker)).map(([, blocked]) => blocked);
+}
+
+describe('wouldCreateCycle', () => {
+  test('rejects a task blocking itself', async () => {
+    expect(await wouldCreateCycle(1, 1, graph([]))).toBe(true);
+  });
+
+  test('detects direct and transitive loops', async () => {
+    const edges = graph([[1, 2], [2, 3], [3, 4]]);
+
+    expect(await wouldCreateCycle(2, 1, edges)).toBe(true);
+    expect(await wouldCreateCycle(4, 1, edges)).toBe(true);
+  });
+
+  test('allows links that keep the graph acyclic', async () => {
+    const edges = graph([[1, 2], [2, 3], [1, 3]]);
+
+    expect(await wouldCreateCycle(1, 4, edges)).toBe(false);
+    expect(await wouldCreateCycle(4, 1, edges)).toBe(false);
+    expect(await wouldCreateCycle(3, 5, edges)).toBe(false);
+  });
+
+  test('terminates on graphs that already contain a loop', async () => {
+    const edges = graph([[2, 3], [3, 2]]);
+
+    expect(await wouldCreateCycle(1, 2, edges)).toBe(false);
+  });
+});
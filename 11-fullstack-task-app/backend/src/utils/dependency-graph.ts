@@ -0,0 +1,37 @@
+/**
+ * Cycle detection for task dependencies
+ *
+ * Dependencies form a directed graph of "blocks" edges. A new edge
+ * blocker -> blocked closes a loop exactly when blocker is already reachable
+ * from blocked, so the check is a breadth-first walk from blocked.
+ */
+
+// Returns the tasks directly blocked by any of the given tasks
+export type BlockedLoader = (blockerIds: number[]) => Promise<number[]>;
+
+export async function wouldCreateCycle(
+  blockerId: number,
+  blockedId: number,
+  loadBlocked: BlockedLoader
+): Promise<boolean> {
+  if (blockerId === blockedId) return true;
+
+  const visited = new Set<number>([blockedId]);
+  let frontier = [blockedId];
+
+  while (frontier.length > 0) {
+    const next: number[] = [];
+
+    for (const id of await loadBlocked(frontier)) {
+      if (id === blockerId) return true;
+      if (!visited.has(id)) {
+        visited.add(id);
+        next.push(id);
+      }
+    }
+
+    frontier = next;
+  }
+
+  return false;
+}
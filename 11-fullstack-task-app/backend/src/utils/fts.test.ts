@@ -0,0 +1,30 @@
+import { describe, expect, test } from 'bun:test';
+import { Database } from 'bun:sqlite';
+import { toFtsQuery } from './fts';
+
+describe('toFtsQuery', () => {
+  test('quotes words and prefix-matches the last one', () => {
+    expect(toFtsQuery('fix login')).toBe('"fix" "login"*');
+    expect(toFtsQuery('  café-Größe ')).toBe('"café" "Größe"*');
+  });
+
+  test('drops FTS syntax and returns null without words', () => {
+    expect(toFtsQuery('title:"x" OR (y)')).toBe('"title" "x" "OR" "y"*');
+    expect(toFtsQuery('*"()-')).toBeNull();
+  });
+
+  test('produces queries FTS5 accepts and matches case-insensitively', () => {
+    const sqlite = new Database(':memory:');
+    sqlite.run('CREATE VIRTUAL TABLE docs USING fts5(title)');
+    sqlite.run("INSERT INTO docs (title) VALUES ('Fix the login page'), ('Write release notes')");
+
+    const search = (query: string) =>
+      sqlite.query('SELECT title FROM docs WHERE docs MATCH ?').all(toFtsQuery(query)!) as Array<{ title: string }>;
+
+    expect(search('LOGIN').map(row => row.title)).toEqual(['Fix the login page']);
+    expect(search('rel').map(row => row.title)).toEqual(['Write release notes']);
+    expect(search('notes: "release" (')).toHaveLength(1);
+
+    sqlite.close();
+  });
+});
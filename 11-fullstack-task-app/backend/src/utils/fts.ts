@@ -0,0 +1,15 @@
+/**
+ * SQLite full-text search helpers
+ *
+ * FTS5 treats punctuation as query syntax, so user input is reduced to its
+ * words, each quoted, with the last one prefix-matched to help
+ * search-as-you-type.
+ */
+
+// The MATCH expression for a free-text query, or null when it has no words
+export function toFtsQuery(query: string): string | null {
+  const words = query.match(/[\p{L}\p{N}_]+/gu);
+  if (!words) return null;
+
+  return words.map((word, index) => `"${word}"${index === words.length - 1 ? '*' : ''}`).join(' ');
+}
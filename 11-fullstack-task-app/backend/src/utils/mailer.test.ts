@@ -0,0 +1,129 @@
+import { afterAll, beforeAll, describe, expect, spyOn, test } from 'bun:test';
+import { ConsoleMailer, formatMailbox, formatMessage, SmtpMailer } from './mailer';
+
+const FROM = 'TaskFlow <no-reply@taskflow.dev>';
+
+interface SmtpTranscript {
+  commands: string[];
+  data: string;
+}
+
+// Just enough SMTP to accept one message per connection and record it
+function startSmtpStandIn(transcripts: SmtpTranscript[]) {
+  return Bun.listen<{ transcript: SmtpTranscript; buffer: string; inData: boolean }>({
+    hostname: '127.0.0.1',
+    port: 0,
+    socket: {
+      open(socket) {
+        socket.data = { transcript: { commands: [], data: '' }, buffer: '', inData: false };
+        transcripts.push(socket.data.transcript);
+        socket.write('220 stand-in ready\r\n');
+      },
+      data(socket, chunk) {
+        const state = socket.data;
+        state.buffer += chunk.toString();
+
+        let end: number;
+        while ((end = state.buffer.indexOf('\r\n')) !== -1) {
+          const line = state.buffer.slice(0, end);
+          state.buffer = state.buffer.slice(end + 2);
+
+          if (state.inData) {
+            if (line === '.') {
+              state.inData = false;
+              socket.write('250 queued\r\n');
+            } else {
+              state.transcript.data += `${line}\r\n`;
+            }
+            continue;
+          }
+
+          state.transcript.commands.push(line);
+          if (line.startsWith('EHLO')) socket.write('250-stand-in\r\n250 8BITMIME\r\n');
+          else if (line === 'DATA') { state.inData = true; socket.write('354 go ahead\r\n'); }
+          else if (line === 'QUIT') { socket.write('221 bye\r\n'); socket.end(); }
+          else socket.write('250 ok\r\n');
+        }
+      }
+    }
+  });
+}
+
+describe('SmtpMailer', () => {
+  const transcripts: SmtpTranscript[] = [];
+  let server: ReturnType<typeof startSmtpStandIn>;
+  let mailer: SmtpMailer;
+
+  beforeAll(() => {
+    server = startSmtpStandIn(transcripts);
+    mailer = new SmtpMailer(FROM, { host: '127.0.0.1', port: server.port, secure: false, timeoutMs: 2000 });
+  });
+
+  afterAll(() => {
+    server.stop(true);
+  });
+
+  test('sends the envelope to the bare address and the name only in the header', async () => {
+    await mailer.send({
+      to: 'ada@example.com',
+      toName: 'Ada Lovelace',
+      subject: 'Reset your TaskFlow password',
+      text: 'Hi Ada,\n.\nbye'
+    });
+
+    const transcript = transcripts.at(-1)!;
+    expect(transcript.commands).toEqual([
+      'EHLO taskflow',
+      'MAIL FROM:<no-reply@taskflow.dev>',
+      'RCPT TO:<ada@example.com>',
+      'DATA',
+      'QUIT'
+    ]);
+    expect(transcript.data).toContain('To: "Ada Lovelace" <ada@example.com>\r\n');
+    expect(transcript.data).toContain(`Content-Transfer-Encoding: base64`);
+  });
+
+  test('refuses names that could inject headers or recipients before connecting', async () => {
+    const before = transcripts.length;
+
+    for (const toName of ['Eve\r\nBcc: victim@example.com', 'Eve <attacker@example.com>']) {
+      await expect(mailer.send({ to: 'ada@example.com', toName, subject: 'Hi', text: 'Hi' }))
+        .rejects.toThrow('Invalid recipient name');
+    }
+
+    expect(transcripts.length).toBe(before);
+  });
+});
+
+describe('formatMailbox', () => {
+  test('quotes ASCII names and encodes others', () => {
+    expect(formatMailbox('ada@example.com')).toBe('ada@example.com');
+    expect(formatMailbox('ada@example.com', 'Lovelace, Ada "AL"')).toBe('"Lovelace, Ada \\"AL\\"" <ada@example.com>');
+    expect(formatMailbox('jose@example.com', 'José')).toBe(`=?UTF-8?B?${Buffer.from('José').toString('base64')}?= <jose@example.com>`);
+  });
+
+  test('rejects addresses with line breaks or brackets', () => {
+    expect(() => formatMailbox('ada@example.com>\r\nRCPT TO:<eve@example.com')).toThrow('Invalid recipient address');
+  });
+});
+
+describe('ConsoleMailer', () => {
+  test('keeps message text out of the log when bodies are hidden', async () => {
+    const log = spyOn(console, 'log').mockImplementation(() => undefined);
+
+    try {
+      await new ConsoleMailer(FROM, undefined, false).send({ to: 'ada@example.com', subject: 'Reset', text: 'token=secret' });
+      expect(log.mock.calls[0]![0]).not.toContain('token=secret');
+
+      await new ConsoleMailer(FROM).send({ to: 'ada@example.com', subject: 'Reset', text: 'token=secret' });
+      expect(log.mock.calls[1]![0]).toContain('token=secret');
+    } finally {
+      log.mockRestore();
+    }
+  });
+});
+
+test('formatMessage writes the display name into the To header', () => {
+  const message = formatMessage({ to: 'ada@example.com', toName: 'Ada', subject: 'Hi', text: 'Hello' }, FROM);
+  expect(message).toContain('To: "Ada" <ada@example.com>\r\n');
+});
@@ -0,0 +1,316 @@
+/**
+ * Outgoing email for TaskFlow
+ *
+ * Everything that sends mail depends on the `Mailer` interface only. Two
+ * transports implement it:
+ *   - ConsoleMailer prints each message and, given a directory, also writes it
+ *     there as an .eml file (development). With `showBodies` off it prints
+ *     only recipient and subject, so links and tokens stay out of the log
+ *   - SmtpMailer speaks plain SMTP, with STARTTLS or implicit TLS and AUTH
+ *     PLAIN when configured, so it works against both a real relay and a
+ *     local sink such as Mailpit or MailHog
+ */
+
+import { randomBytes } from 'crypto';
+import { mkdir, writeFile } from 'fs/promises';
+import { connect as connectTcp, type Socket } from 'net';
+import { join } from 'path';
+import { connect as connectTls, type TLSSocket } from 'tls';
+
+export interface MailMessage {
+  to: string; // bare address
+  toName?: string | undefined; // display name, shown as "Name <address>"
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface Mailer {
+  send(message: MailMessage): Promise<void>;
+}
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  secure: boolean; // implicit TLS, usually port 465
+  user?: string | undefined;
+  password?: string | undefined;
+  timeoutMs?: number | undefined;
+}
+
+export interface MailerOptions {
+  transport: 'console' | 'smtp';
+  from: string;
+  outputDir?: string | undefined;
+  showBodies: boolean; // console transport: print message text, not just the subject
+  smtp: SmtpOptions;
+}
+
+// Bare address out of `Name <address>`
+function addressOf(mailbox: string): string {
+  const match = mailbox.match(/<([^>]+)>/);
+  return (match ? match[1]! : mailbox).trim();
+}
+
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value).toString('base64')}?=`;
+}
+
+// Characters that would let a display name or address add header lines or
+// SMTP commands, or change which address a mailbox points to
+const UNSAFE_MAILBOX_CHARS = /[\r\n<>]/;
+
+export function isSafeDisplayName(name: string): boolean {
+  return !UNSAFE_MAILBOX_CHARS.test(name);
+}
+
+// `To:` value for a recipient; ASCII names are quoted, others encoded
+export function formatMailbox(address: string, name?: string): string {
+  if (UNSAFE_MAILBOX_CHARS.test(address) || /\s/.test(address)) {
+    throw new Error('Invalid recipient address');
+  }
+  if (!name) return address;
+  if (!isSafeDisplayName(name)) {
+    throw new Error('Invalid recipient name');
+  }
+
+  const display = /^[\x20-\x7e]*$/.test(name) ? `"${name.replace(/["\\]/g, '\\$&')}"` : encodeHeader(name);
+  return `${display} <${address}>`;
+}
+
+function encodeBody(value: string): string {
+  return Buffer.from(value).toString('base64').replace(/.{1,76}/g, '$&\r\n');
+}
+
+// RFC 5322 message with base64 parts, so any text survives 7-bit relays
+export function formatMessage(message: MailMessage, from: string): string {
+  const domain = addressOf(from).split('@')[1] || 'localhost';
+  const headers = [
+    `From: ${from}`,
+    `To: ${formatMailbox(message.to, message.toName)}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${randomBytes(16).toString('hex')}@${domain}>`,
+    'MIME-Version: 1.0'
+  ];
+
+  if (!message.html) {
+    return [
+      ...headers,
+      'Content-Type: text/plain; charset=utf-8',
+      'Content-Transfer-Encoding: base64',
+      '',
+      encodeBody(message.text)
+    ].join('\r\n');
+  }
+
+  const boundary = `taskflow-${randomBytes(12).toString('hex')}`;
+
+  return [
+    ...headers,
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    '',
+    `--${boundary}`,
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    encodeBody(message.text),
+    `--${boundary}`,
+    'Content-Type: text/html; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    encodeBody(message.html),
+    `--${boundary}--`,
+    ''
+  ].join('\r\n');
+}
+
+export class ConsoleMailer implements Mailer {
+  constructor(
+    private from: string,
+    private outputDir?: string,
+    private showBodies = true
+  ) {}
+
+  async send(message: MailMessage): Promise<void> {
+    const text = this.showBodies ? message.text : '(body not shown; set MAIL_TRANSPORT=smtp to deliver mail)';
+    console.log(`📧 Mail to ${message.to}: ${message.subject}\n${text}`);
+
+    if (this.outputDir) {
+      await mkdir(this.outputDir, { recursive: true });
+      const fileName = `${new Date().toISOString().replace(/[:.]/g, '-')}-${randomBytes(4).toString('hex')}.eml`;
+      await writeFile(join(this.outputDir, fileName), formatMessage(message, this.from));
+    }
+  }
+}
+
+interface SmtpReply {
+  code: number;
+  message: string;
+}
+
+// One SMTP conversation: commands are written one at a time and each waits for
+// its (possibly multi-line) reply
+class SmtpSession {
+  private buffer = '';
+  private lines: string[] = [];
+  private replies: SmtpReply[] = [];
+  private waiting: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void } | null = null;
+  private failure: Error | null = null;
+
+  constructor(
+    private socket: Socket | TLSSocket,
+    private timeoutMs: number
+  ) {
+    this.listen(socket);
+  }
+
+  private listen(socket: Socket | TLSSocket) {
+    socket.on('data', (chunk: Buffer) => {
+      this.buffer += chunk.toString('utf8');
+      this.parse();
+    });
+    socket.on('error', (error: Error) => this.fail(error));
+    socket.on('close', () => this.fail(new Error('SMTP connection closed')));
+  }
+
+  private parse() {
+    let end: number;
+
+    while ((end = this.buffer.indexOf('\r\n')) !== -1) {
+      const line = this.buffer.slice(0, end);
+      this.buffer = this.buffer.slice(end + 2);
+      this.lines.push(line);
+
+      // "250-..." continues a reply, "250 ..." ends it
+      if (/^\d{3}(?: |$)/.test(line)) {
+        const reply = { code: Number(line.slice(0, 3)), message: this.lines.map(part => part.slice(4)).join('\n') };
+        this.lines = [];
+
+        if (this.waiting) {
+          const waiting = this.waiting;
+          this.waiting = null;
+          waiting.resolve(reply);
+        } else {
+          this.replies.push(reply);
+        }
+      }
+    }
+  }
+
+  private fail(error: Error) {
+    this.failure = this.failure || error;
+
+    if (this.waiting) {
+      const waiting = this.waiting;
+      this.waiting = null;
+      waiting.reject(error);
+    }
+  }
+
+  read(): Promise<SmtpReply> {
+    const queued = this.replies.shift();
+    if (queued) return Promise.resolve(queued);
+    if (this.failure) return Promise.reject(this.failure);
+
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.waiting = null;
+        reject(new Error(`SMTP server did not respond within ${this.timeoutMs}ms`));
+      }, this.timeoutMs);
+
+      this.waiting = {
+        resolve: reply => { clearTimeout(timer); resolve(reply); },
+        reject: error => { clearTimeout(timer); reject(error); }
+      };
+    });
+  }
+
+  async expect(codes: number[], label: string): Promise<SmtpReply> {
+    const reply = await this.read();
+    if (!codes.includes(reply.code)) {
+      throw new Error(`SMTP ${label} failed: ${reply.code} ${reply.message}`);
+    }
+    return reply;
+  }
+
+  // label keeps credentials out of error messages
+  async command(line: string, codes: number[], label = line.split(' ')[0]!): Promise<SmtpReply> {
+    this.socket.write(`${line}\r\n`);
+    return this.expect(codes, label);
+  }
+
+  async startTls(host: string): Promise<void> {
+    const plain = this.socket;
+    plain.removeAllListeners('data');
+    plain.removeAllListeners('error');
+    plain.removeAllListeners('close');
+
+    this.socket = await new Promise<TLSSocket>((resolve, reject) => {
+      const secure = connectTls({ socket: plain as Socket, servername: host }, () => resolve(secure));
+      secure.once('error', reject);
+    });
+    this.listen(this.socket);
+  }
+
+  close() {
+    this.socket.end();
+  }
+}
+
+export class SmtpMailer implements Mailer {
+  constructor(
+    private from: string,
+    private options: SmtpOptions
+  ) {}
+
+  private connect(): Promise<Socket | TLSSocket> {
+    const { host, port, secure } = this.options;
+
+    return new Promise((resolve, reject) => {
+      const socket: Socket | TLSSocket = secure
+        ? connectTls({ host, port, servername: host }, () => resolve(socket))
+        : connectTcp({ host, port }, () => resolve(socket));
+      socket.once('error', reject);
+    });
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    const { host, user, password, secure, timeoutMs = 10000 } = this.options;
+    // Formatting first validates the recipient before anything is sent
+    const data = formatMessage(message, this.from);
+    const session = new SmtpSession(await this.connect(), timeoutMs);
+
+    try {
+      await session.expect([220], 'greeting');
+      let hello = await session.command('EHLO taskflow', [250]);
+
+      if (!secure && /^STARTTLS$/m.test(hello.message)) {
+        await session.command('STARTTLS', [220]);
+        await session.startTls(host);
+        hello = await session.command('EHLO taskflow', [250]);
+      }
+
+      if (user) {
+        const credentials = Buffer.from(`\0${user}\0${password || ''}`).toString('base64');
+        await session.command(`AUTH PLAIN ${credentials}`, [235], 'AUTH');
+      }
+
+      await session.command(`MAIL FROM:<${addressOf(this.from)}>`, [250]);
+      await session.command(`RCPT TO:<${message.to}>`, [250, 251]);
+      await session.command('DATA', [354]);
+
+      // Dot-stuffing: a line starting with "." would otherwise end the data early
+      await session.command(`${data.replace(/^\./gm, '..')}\r\n.`, [250], 'DATA');
+      await session.command('QUIT', [221]).catch(() => undefined);
+    } finally {
+      session.close();
+    }
+  }
+}
+
+export function createMailer(options: MailerOptions): Mailer {
+  return options.transport === 'smtp'
+    ? new SmtpMailer(options.from, options.smtp)
+    : new ConsoleMailer(options.from, options.outputDir, options.showBodies);
+}
@@ -0,0 +1,86 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { Database as SqliteDatabase } from 'bun:sqlite';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { createHash } from 'crypto';
+import { Migrator, checksumOf, splitStatements, type MigrationDatabase } from './migrator';
+
+// Exposes bun:sqlite through the all/run interface the migrator uses
+function sqliteAdapter(sqlite: SqliteDatabase): MigrationDatabase {
+  return {
+    all: async (query: string, params: any[] = []) => sqlite.query(query).all(...params),
+    run: async (query: string, params: any[] = []) => sqlite.run(query, params)
+  };
+}
+
+let directory: string;
+let sqlite: SqliteDatabase;
+let migrator: Migrator;
+
+async function writeMigration(file: string, sql: string) {
+  await writeFile(join(directory, file), sql);
+}
+
+beforeEach(async () => {
+  directory = await mkdtemp(join(tmpdir(), 'migrations-'));
+  sqlite = new SqliteDatabase(':memory:');
+  migrator = new Migrator(sqliteAdapter(sqlite), 'sqlite', directory);
+
+  await writeMigration('001_create_notes.up.sql', 'CREATE TABLE notes (id {{PRIMARY_KEY}}, body TEXT);');
+  await writeMigration('001_create_notes.down.sql', 'DROP TABLE notes;');
+});
+
+afterEach(async () => {
+  sqlite.close();
+  await rm(directory, { recursive: true, force: true });
+});
+
+describe('Migrator', () => {
+  test('applies pending migrations once and rolls them back', async () => {
+    expect((await migrator.migrate()).map(m => m.version)).toEqual(['001']);
+    expect(await migrator.migrate()).toEqual([]);
+
+    sqlite.run("INSERT INTO notes (body) VALUES ('hello')");
+
+    await migrator.rollback();
+    expect(sqlite.query("SELECT name FROM sqlite_master WHERE name = 'notes'").get()).toBeNull();
+  });
+
+  test('reports and refuses edits to the down file of an applied migration', async () => {
+    await migrator.migrate();
+    await writeMigration('001_create_notes.down.sql', 'DELETE FROM notes;');
+
+    const [status] = await migrator.status();
+    expect(status?.checksumMismatch).toBe(true);
+    await expect(migrator.migrate()).rejects.toThrow('Checksum mismatch');
+  });
+
+  test('upgrades checksums recorded from the up file alone', async () => {
+    await migrator.migrate();
+
+    const upOnly = createHash('sha256')
+      .update('CREATE TABLE notes (id {{PRIMARY_KEY}}, body TEXT);')
+      .digest('hex');
+    sqlite.run('UPDATE schema_migrations SET checksum = ?', [upOnly]);
+
+    expect(await migrator.migrate()).toEqual([]);
+
+    const row = sqlite.query('SELECT checksum FROM schema_migrations').get() as { checksum: string };
+    expect(row.checksum).toBe(checksumOf('CREATE TABLE notes (id {{PRIMARY_KEY}}, body TEXT);', 'DROP TABLE notes;'));
+  });
+});
+
+describe('splitStatements', () => {
+  test('keeps semicolons inside strings and trigger bodies', () => {
+    const statements = splitStatements(`
+      INSERT INTO notes (body) VALUES ('a;b');
+      CREATE TRIGGER touch AFTER UPDATE ON notes BEGIN UPDATE notes SET body = body; END;
+      -- trailing comment;
+    `);
+
+    expect(statements).toHaveLength(2);
+    expect(statements[0]).toContain("'a;b'");
+    expect(statements[1]).toEndWith('END');
+  });
+});
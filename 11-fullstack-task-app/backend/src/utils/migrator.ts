@@ -0,0 +1,347 @@
+/**
+ * Versioned schema migrations for TaskFlow
+ *
+ * Migrations live in backend/migrations as ordered pairs of SQL files:
+ *   001_create_users.up.sql
+ *   001_create_users.down.sql
+ *
+ * Files are written to run on both PostgreSQL and SQLite. `{{PRIMARY_KEY}}`
+ * expands to the auto-incrementing id column of the current dialect, and a
+ * dialect-specific file such as 001_create_users.up.postgres.sql takes
+ * precedence over the portable one when a feature cannot be shared.
+ *
+ * Every migration runs inside its own transaction together with the row that
+ * records it, and applied migrations are checksummed (up and down SQL) so edits
+ * to files that already ran are caught before anything else is applied.
+ */
+
+import { createHash } from 'crypto';
+import { readdir } from 'fs/promises';
+import { join } from 'path';
+
+export type Dialect = 'postgres' | 'sqlite';
+
+// The part of the database client the migrator needs. It must be a single
+// connection: transactions are plain BEGIN/COMMIT statements.
+export interface MigrationDatabase {
+  all(query: string, params?: any[]): Promise<any[]>;
+  run(query: string, params?: any[]): Promise<unknown>;
+}
+
+export interface Migration {
+  version: string;
+  name: string;
+  up: string;
+  down: string | null;
+  checksum: string;
+  // Checksum of the up SQL alone, as recorded before down files were covered
+  legacyChecksum: string;
+}
+
+export interface MigrationStatus {
+  version: string;
+  name: string;
+  applied: boolean;
+  appliedAt?: string | undefined;
+  checksumMismatch: boolean;
+  missingFile: boolean;
+}
+
+const MIGRATION_FILE = /^(\d+)_([a-z0-9_]+)\.(up|down)(?:\.(postgres|sqlite))?\.sql$/;
+
+const PLACEHOLDERS: Record<Dialect, Record<string, string>> = {
+  postgres: {
+    PRIMARY_KEY: 'SERIAL PRIMARY KEY'
+  },
+  sqlite: {
+    PRIMARY_KEY: 'INTEGER PRIMARY KEY AUTOINCREMENT'
+  }
+};
+
+function sha256(text: string): string {
+  return createHash('sha256').update(text).digest('hex');
+}
+
+// A NUL byte cannot occur in the SQL files, so it separates the two parts unambiguously
+export function checksumOf(up: string, down: string | null): string {
+  return sha256(`${up}\0${down ?? ''}`);
+}
+
+export function detectDialect(url: string): Dialect {
+  if (url.startsWith('postgres://') || url.startsWith('postgresql://')) return 'postgres';
+  if (url.startsWith('sqlite:') || url.startsWith('file:') || url === ':memory:' || url.endsWith('.db')) return 'sqlite';
+
+  throw new Error(`Unsupported database URL: ${url}`);
+}
+
+// SQLite trigger bodies are BEGIN ... END blocks made of several statements
+const TRIGGER_START = /^\s*CREATE\s+(?:TEMP\w*\s+)?TRIGGER\b/i;
+const TRIGGER_END = /\bEND\s*$/i;
+
+// Splits a file into statements, leaving semicolons inside strings, comments,
+// PostgreSQL dollar-quoted bodies and SQLite trigger bodies alone
+export function splitStatements(sql: string): string[] {
+  const statements: string[] = [];
+  let current = '';
+  let i = 0;
+
+  while (i < sql.length) {
+    const char = sql[i]!;
+    const rest = sql.slice(i);
+
+    if (rest.startsWith('--')) {
+      const end = sql.indexOf('\n', i);
+      i = end === -1 ? sql.length : end + 1;
+      continue;
+    }
+
+    if (rest.startsWith('/*')) {
+      const end = sql.indexOf('*/', i + 2);
+      i = end === -1 ? sql.length : end + 2;
+      continue;
+    }
+
+    if (char === "'" || char === '"') {
+      let end = i + 1;
+      while (end < sql.length) {
+        if (sql[end] === char && sql[end + 1] === char) {
+          end += 2;
+        } else if (sql[end] === char) {
+          break;
+        } else {
+          end++;
+        }
+      }
+      current += sql.slice(i, end + 1);
+      i = end + 1;
+      continue;
+    }
+
+    const dollarTag = rest.match(/^\$[a-zA-Z_]*\$/);
+    if (dollarTag) {
+      const end = sql.indexOf(dollarTag[0], i + dollarTag[0].length);
+      const stop = end === -1 ? sql.length : end + dollarTag[0].length;
+      current += sql.slice(i, stop);
+      i = stop;
+      continue;
+    }
+
+    if (char === ';') {
+      if (TRIGGER_START.test(current) && !TRIGGER_END.test(current)) {
+        current += char;
+        i++;
+        continue;
+      }
+
+      if (current.trim()) statements.push(current.trim());
+      current = '';
+      i++;
+      continue;
+    }
+
+    current += char;
+    i++;
+  }
+
+  if (current.trim()) statements.push(current.trim());
+  return statements;
+}
+
+export class Migrator {
+  constructor(
+    private db: MigrationDatabase,
+    private dialect: Dialect,
+    private directory: string
+  ) {}
+
+  private expand(sql: string): string {
+    return sql.replace(/\{\{([A-Z_]+)\}\}/g, (match, key) => {
+      const value = PLACEHOLDERS[this.dialect][key];
+      if (!value) throw new Error(`Unknown migration placeholder ${match}`);
+      return value;
+    });
+  }
+
+  async ensureTable(): Promise<void> {
+    await this.db.run(this.expand(`
+      CREATE TABLE IF NOT EXISTS schema_migrations (
+        version VARCHAR(32) PRIMARY KEY,
+        name VARCHAR(255) NOT NULL,
+        checksum VARCHAR(64) NOT NULL,
+        applied_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+      )
+    `));
+  }
+
+  async load(): Promise<Migration[]> {
+    const files = await readdir(this.directory);
+    const found = new Map<string, { name: string; up: Record<string, string>; down: Record<string, string> }>();
+
+    for (const file of files) {
+      const match = file.match(MIGRATION_FILE);
+      if (!match) continue;
+
+      const [, version, name, direction, dialect] = match as unknown as [string, string, string, 'up' | 'down', Dialect | undefined];
+      const entry = found.get(version) || { name, up: {}, down: {} };
+
+      if (entry.name !== name) {
+        throw new Error(`Migration ${version} has conflicting names: ${entry.name} and ${name}`);
+      }
+
+      entry[direction][dialect || 'portable'] = file;
+      found.set(version, entry);
+    }
+
+    const migrations: Migration[] = [];
+
+    for (const [version, entry] of [...found.entries()].sort(([a], [b]) => Number(a) - Number(b))) {
+      const upFile = entry.up[this.dialect] || entry.up.portable;
+      const downFile = entry.down[this.dialect] || entry.down.portable;
+
+      if (!upFile) {
+        throw new Error(`Migration ${version}_${entry.name} has no up file for ${this.dialect}`);
+      }
+
+      const up = await Bun.file(join(this.directory, upFile)).text();
+      const down = downFile ? await Bun.file(join(this.directory, downFile)).text() : null;
+
+      migrations.push({
+        version,
+        name: entry.name,
+        up,
+        down,
+        checksum: checksumOf(up, down),
+        legacyChecksum: sha256(up)
+      });
+    }
+
+    return migrations;
+  }
+
+  private async applied(): Promise<Map<string, { name: string; checksum: string; applied_at: string }>> {
+    await this.ensureTable();
+
+    const rows = await this.db.all('SELECT version, name, checksum, applied_at FROM schema_migrations ORDER BY version');
+    return new Map(rows.map((row: any) => [row.version, row]));
+  }
+
+  async status(): Promise<MigrationStatus[]> {
+    const migrations = await this.load();
+    const applied = await this.applied();
+
+    const statuses: MigrationStatus[] = migrations.map(migration => {
+      const record = applied.get(migration.version);
+      return {
+        version: migration.version,
+        name: migration.name,
+        applied: !!record,
+        appliedAt: record?.applied_at,
+        checksumMismatch: !!record && !this.matches(record.checksum, migration),
+        missingFile: false
+      };
+    });
+
+    // Applied migrations whose files have since been deleted
+    for (const [version, record] of applied) {
+      if (!migrations.some(migration => migration.version === version)) {
+        statuses.push({
+          version,
+          name: record.name,
+          applied: true,
+          appliedAt: record.applied_at,
+          checksumMismatch: false,
+          missingFile: true
+        });
+      }
+    }
+
+    return statuses.sort((a, b) => Number(a.version) - Number(b.version));
+  }
+
+  private matches(recorded: string, migration: Migration): boolean {
+    return recorded === migration.checksum || recorded === migration.legacyChecksum;
+  }
+
+  // Records applied before down files were checksummed are upgraded in place
+  private async verify(migrations: Migration[]): Promise<Map<string, { name: string; checksum: string; applied_at: string }>> {
+    const applied = await this.applied();
+
+    for (const migration of migrations) {
+      const record = applied.get(migration.version);
+      if (!record) continue;
+
+      if (!this.matches(record.checksum, migration)) {
+        throw new Error(
+          `Checksum mismatch for migration ${migration.version}_${migration.name}: ` +
+          'a file was changed after it was applied. Add a new migration instead.'
+        );
+      }
+
+      if (record.checksum !== migration.checksum) {
+        await this.db.run(
+          'UPDATE schema_migrations SET checksum = ? WHERE version = ?',
+          [migration.checksum, migration.version]
+        );
+        record.checksum = migration.checksum;
+      }
+    }
+
+    return applied;
+  }
+
+  private async runInTransaction(sql: string, record: () => Promise<void>): Promise<void> {
+    await this.db.run(this.dialect === 'postgres' ? 'BEGIN' : 'BEGIN TRANSACTION');
+
+    try {
+      for (const statement of splitStatements(this.expand(sql))) {
+        await this.db.run(statement);
+      }
+      await record();
+      await this.db.run('COMMIT');
+    } catch (error) {
+      await this.db.run('ROLLBACK');
+      throw error;
+    }
+  }
+
+  // Applies every pending migration in order and returns the ones that ran
+  async migrate(): Promise<Migration[]> {
+    const migrations = await this.load();
+    const applied = await this.verify(migrations);
+    const pending = migrations.filter(migration => !applied.has(migration.version));
+
+    for (const migration of pending) {
+      await this.runInTransaction(migration.up, async () => {
+        await this.db.run(
+          'INSERT INTO schema_migrations (version, name, checksum, applied_at) VALUES (?, ?, ?, CURRENT_TIMESTAMP)',
+          [migration.version, migration.name, migration.checksum]
+        );
+      });
+    }
+
+    return pending;
+  }
+
+  // Rolls back the most recently applied migrations and returns the ones undone
+  async rollback(steps = 1): Promise<Migration[]> {
+    const migrations = await this.load();
+    const applied = await this.verify(migrations);
+
+    const targets = migrations
+      .filter(migration => applied.has(migration.version))
+      .reverse()
+      .slice(0, steps);
+
+    for (const migration of targets) {
+      if (migration.down === null) {
+        throw new Error(`Migration ${migration.version}_${migration.name} has no down file`);
+      }
+
+      await this.runInTransaction(migration.down, async () => {
+        await this.db.run('DELETE FROM schema_migrations WHERE version = ?', [migration.version]);
+      });
+    }
+
+    return targets;
+  }
+}
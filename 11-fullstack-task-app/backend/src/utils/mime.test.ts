@@ -0,0 +1,43 @@
+import { describe, expect, test } from 'bun:test';
+import { sniffMimeType, TEXT_SNIFF_BYTES } from './mime';
+
+const encoder = new TextEncoder();
+
+describe('sniffMimeType', () => {
+  test('detects types from magic bytes regardless of the file name', () => {
+    const png = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0]);
+    expect(sniffMimeType(png, 'photo.txt')).toBe('image/png');
+
+    const pdf = encoder.encode('%PDF-1.7\n...');
+    expect(sniffMimeType(pdf, 'report')).toBe('application/pdf');
+  });
+
+  test('uses the extension to name zip based office documents', () => {
+    const zip = new Uint8Array([0x50, 0x4b, 0x03, 0x04, 0, 0]);
+    expect(sniffMimeType(zip, 'notes.docx')).toBe(
+      'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+    );
+    expect(sniffMimeType(zip, 'archive.zip')).toBe('application/zip');
+  });
+
+  test('accepts UTF-8 text and rejects binary data', () => {
+    expect(sniffMimeType(encoder.encode('a,b\n1,2\n'), 'data.csv')).toBe('text/csv');
+    expect(sniffMimeType(encoder.encode('plain'), 'readme')).toBe('text/plain');
+    expect(sniffMimeType(new Uint8Array([0x41, 0x00, 0x42]), 'file.bin')).toBeNull();
+    expect(sniffMimeType(new Uint8Array([0xc3, 0x28]), 'file.txt')).toBeNull();
+  });
+
+  test('accepts text whose inspected head ends inside a multibyte character', () => {
+    // "é" is two bytes; place it so the sniffed head ends after its first byte
+    const text = 'a'.repeat(TEXT_SNIFF_BYTES - 1) + 'é' + 'tail';
+    const bytes = encoder.encode(text);
+    expect(bytes[TEXT_SNIFF_BYTES - 1]).toBe(0xc3);
+
+    expect(sniffMimeType(bytes, 'long.md')).toBe('text/markdown');
+  });
+
+  test('rejects a file that really ends in a truncated character', () => {
+    const bytes = encoder.encode('abc é').subarray(0, 5);
+    expect(sniffMimeType(bytes, 'short.txt')).toBeNull();
+  });
+});
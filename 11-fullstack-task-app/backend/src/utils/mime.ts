@@ -0,0 +1,71 @@
+/**
+ * Upload content type detection
+ *
+ * The type is read from the file's magic bytes instead of being trusted from the
+ * client; anything without a known signature is accepted only as UTF-8 text.
+ */
+
+import { extname } from 'path';
+
+const MIME_SIGNATURES: Array<{ mimeType: string; offset: number; bytes: number[] }> = [
+  { mimeType: 'image/png', offset: 0, bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a] },
+  { mimeType: 'image/jpeg', offset: 0, bytes: [0xff, 0xd8, 0xff] },
+  { mimeType: 'image/gif', offset: 0, bytes: [0x47, 0x49, 0x46, 0x38] },
+  { mimeType: 'image/webp', offset: 8, bytes: [0x57, 0x45, 0x42, 0x50] },
+  { mimeType: 'application/pdf', offset: 0, bytes: [0x25, 0x50, 0x44, 0x46, 0x2d] },
+  { mimeType: 'application/zip', offset: 0, bytes: [0x50, 0x4b, 0x03, 0x04] }
+];
+
+// Office documents are zip containers, so the extension picks the final type
+const ZIP_BASED_TYPES: Record<string, string> = {
+  '.docx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  '.xlsx': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  '.pptx': 'application/vnd.openxmlformats-officedocument.presentationml.presentation'
+};
+
+const TEXT_TYPES: Record<string, string> = {
+  '.csv': 'text/csv',
+  '.md': 'text/markdown',
+  '.json': 'application/json'
+};
+
+// Only this much of a file is inspected when deciding whether it is text
+export const TEXT_SNIFF_BYTES = 8192;
+
+function startsWith(bytes: Uint8Array, prefix: number[]): boolean {
+  return prefix.every((byte, i) => bytes[i] === byte);
+}
+
+// The sniffed content type, or null when the file is not an allowed type
+export function sniffMimeType(bytes: Uint8Array, originalName: string): string | null {
+  const extension = extname(originalName).toLowerCase();
+
+  for (const signature of MIME_SIGNATURES) {
+    const matches = signature.bytes.every((byte, i) => bytes[signature.offset + i] === byte);
+    if (!matches) continue;
+
+    if (signature.mimeType === 'image/webp' && !startsWith(bytes, [0x52, 0x49, 0x46, 0x46])) {
+      continue;
+    }
+
+    if (signature.mimeType === 'application/zip') {
+      return ZIP_BASED_TYPES[extension] || signature.mimeType;
+    }
+
+    return signature.mimeType;
+  }
+
+  // Anything without a NUL byte that decodes as UTF-8 is treated as text. When the
+  // head is cut from a longer file, streaming mode tolerates a character split at the cut.
+  const head = bytes.subarray(0, TEXT_SNIFF_BYTES);
+  if (!head.includes(0)) {
+    try {
+      new TextDecoder('utf-8', { fatal: true }).decode(head, { stream: head.length < bytes.length });
+      return TEXT_TYPES[extension] || 'text/plain';
+    } catch {
+      return null;
+    }
+  }
+
+  return null;
+}
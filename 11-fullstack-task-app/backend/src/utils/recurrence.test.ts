@@ -0,0 +1,38 @@
+import { describe, expect, test } from 'bun:test';
+import { nextOccurrence } from './recurrence';
+
+const anchor = new Date('2026-01-05T09:30:00.000Z'); // a Monday
+
+function next(rule: Parameters<typeof nextOccurrence>[0], after: string, occurrences = 1) {
+  return nextOccurrence(rule, anchor, new Date(after), occurrences)?.toISOString() ?? null;
+}
+
+describe('nextOccurrence', () => {
+  test('steps daily schedules by their interval at the anchor time', () => {
+    expect(next({ frequency: 'daily', interval: 1 }, '2026-01-05T09:30:00.000Z')).toBe('2026-01-06T09:30:00.000Z');
+    expect(next({ frequency: 'daily', interval: 3 }, '2026-01-06T12:00:00.000Z')).toBe('2026-01-08T09:30:00.000Z');
+  });
+
+  test('picks the listed weekdays in every interval-th week', () => {
+    const rule = { frequency: 'weekly' as const, interval: 2, weekdays: [1, 4] };
+
+    expect(next(rule, '2026-01-05T09:30:00.000Z')).toBe('2026-01-08T09:30:00.000Z');
+    // The following week is skipped
+    expect(next(rule, '2026-01-08T09:30:00.000Z')).toBe('2026-01-19T09:30:00.000Z');
+  });
+
+  test('falls back to the last day of shorter months', () => {
+    const rule = { frequency: 'monthly' as const, interval: 1, monthDay: 31 };
+
+    expect(next(rule, '2026-01-31T09:30:00.000Z')).toBe('2026-02-28T09:30:00.000Z');
+    expect(next(rule, '2026-02-28T09:30:00.000Z')).toBe('2026-03-31T09:30:00.000Z');
+  });
+
+  test('stops after count occurrences or past endsAt', () => {
+    expect(next({ frequency: 'daily', interval: 1, count: 3 }, '2026-01-06T09:30:00.000Z', 3)).toBeNull();
+    expect(next({ frequency: 'daily', interval: 1, count: 3 }, '2026-01-06T09:30:00.000Z', 2))
+      .toBe('2026-01-07T09:30:00.000Z');
+    expect(next({ frequency: 'daily', interval: 1, endsAt: '2026-01-06T23:59:59.000Z' }, '2026-01-06T09:30:00.000Z'))
+      .toBeNull();
+  });
+});
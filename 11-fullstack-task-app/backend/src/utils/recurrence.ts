@@ -0,0 +1,81 @@
+/**
+ * Occurrence dates for recurring tasks
+ *
+ * A schedule repeats every `interval` days, weeks or months counted from the
+ * anchor (the due date of the series' first task), keeping the anchor's time of
+ * day. Weekly schedules may pick several weekdays; monthly ones fall back to the
+ * last day of shorter months. All arithmetic is done in UTC.
+ */
+
+import type { RecurrenceRule } from '../../../shared/types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function startOfWeek(date: Date): number {
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() - date.getUTCDay());
+}
+
+function atAnchorTime(year: number, month: number, day: number, anchor: Date): Date {
+  return new Date(Date.UTC(
+    year, month, day,
+    anchor.getUTCHours(), anchor.getUTCMinutes(), anchor.getUTCSeconds(), anchor.getUTCMilliseconds()
+  ));
+}
+
+function nextDaily(rule: RecurrenceRule, anchor: Date, after: Date): Date {
+  const step = rule.interval * DAY_MS;
+  const steps = Math.floor((after.getTime() - anchor.getTime()) / step) + 1;
+
+  return new Date(anchor.getTime() + Math.max(steps, 0) * step);
+}
+
+function nextWeekly(rule: RecurrenceRule, anchor: Date, after: Date): Date {
+  const weekdays = rule.weekdays?.length ? rule.weekdays : [anchor.getUTCDay()];
+  let candidate = atAnchorTime(after.getUTCFullYear(), after.getUTCMonth(), after.getUTCDate(), anchor);
+
+  // Any matching day lies within one full cycle of weeks
+  for (let i = 0; i <= 7 * (rule.interval + 1); i++) {
+    const weeks = Math.round((startOfWeek(candidate) - startOfWeek(anchor)) / (7 * DAY_MS));
+
+    if (candidate > after && weeks >= 0 && weeks % rule.interval === 0 && weekdays.includes(candidate.getUTCDay())) {
+      return candidate;
+    }
+
+    candidate = new Date(candidate.getTime() + DAY_MS);
+  }
+
+  throw new Error('Weekly recurrence has no matching day');
+}
+
+function nextMonthly(rule: RecurrenceRule, anchor: Date, after: Date): Date {
+  const day = rule.monthDay ?? anchor.getUTCDate();
+  const anchorMonth = anchor.getUTCFullYear() * 12 + anchor.getUTCMonth();
+  const elapsed = Math.max(after.getUTCFullYear() * 12 + after.getUTCMonth() - anchorMonth, 0);
+  let months = Math.ceil(elapsed / rule.interval) * rule.interval;
+
+  for (;;) {
+    const year = Math.floor((anchorMonth + months) / 12);
+    const month = (anchorMonth + months) % 12;
+    const daysInMonth = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+    const candidate = atAnchorTime(year, month, Math.min(day, daysInMonth), anchor);
+
+    if (candidate > after) return candidate;
+    months += rule.interval;
+  }
+}
+
+// The first occurrence strictly after `after`, or null once the schedule has
+// produced `rule.count` occurrences or would pass `rule.endsAt`
+export function nextOccurrence(rule: RecurrenceRule, anchor: Date, after: Date, occurrences: number): Date | null {
+  if (rule.count !== undefined && occurrences >= rule.count) return null;
+
+  const next = rule.frequency === 'daily'
+    ? nextDaily(rule, anchor, after)
+    : rule.frequency === 'weekly'
+      ? nextWeekly(rule, anchor, after)
+      : nextMonthly(rule, anchor, after);
+
+  if (rule.endsAt && next.getTime() > Date.parse(rule.endsAt)) return null;
+
+  return next;
+}
@@ -0,0 +1,54 @@
+import { describe, expect, test } from 'bun:test';
+import { SseStream } from './sse';
+
+const HEADERS = { 'Content-Type': 'text/event-stream' };
+
+describe('SseStream', () => {
+  test('streams written chunks in order until closed', async () => {
+    const stream = new SseStream(HEADERS);
+
+    expect(stream.write('retry: 3000\n\n')).toBe(true);
+    expect(stream.write('data: {"type":"connection"}\n\n')).toBe(true);
+    stream.close();
+
+    expect(stream.response.headers.get('Content-Type')).toBe('text/event-stream');
+    expect(await stream.response.text()).toBe('retry: 3000\n\ndata: {"type":"connection"}\n\n');
+  });
+
+  test('delivers chunks written while the client is already reading', async () => {
+    const stream = new SseStream(HEADERS);
+    const reader = stream.response.body!.getReader();
+
+    stream.write('data: 1\n\n');
+    const first = await reader.read();
+    expect(new TextDecoder().decode(first.value)).toBe('data: 1\n\n');
+
+    stream.write('data: 2\n\n');
+    const second = await reader.read();
+    expect(new TextDecoder().decode(second.value)).toBe('data: 2\n\n');
+
+    await reader.cancel();
+  });
+
+  test('runs close handlers once when the client goes away', async () => {
+    const stream = new SseStream(HEADERS);
+    let closes = 0;
+    stream.onClose(() => closes++);
+
+    await stream.response.body!.cancel();
+
+    expect(stream.isClosed).toBe(true);
+    expect(stream.write('data: late\n\n')).toBe(false);
+    stream.close();
+    expect(closes).toBe(1);
+  });
+
+  test('runs handlers registered after closing right away', () => {
+    const stream = new SseStream(HEADERS);
+    stream.close();
+
+    let called = false;
+    stream.onClose(() => { called = true; });
+    expect(called).toBe(true);
+  });
+});
@@ -0,0 +1,74 @@
+/**
+ * Server-Sent Events streams
+ *
+ * A Fetch Response cannot be written to after it is created, so the body is a
+ * ReadableStream whose controller is kept and fed as events arrive. The stream
+ * closes when the server ends it or the client goes away (the reader cancels).
+ */
+
+const encoder = new TextEncoder();
+
+export class SseStream {
+  readonly response: Response;
+  private controller!: ReadableStreamDefaultController<Uint8Array>;
+  private closed = false;
+  private closeHandlers: Array<() => void> = [];
+
+  constructor(headers: NonNullable<ResponseInit['headers']>) {
+    // start() runs synchronously, so the controller is set before the constructor returns
+    const body = new ReadableStream<Uint8Array>({
+      start: controller => {
+        this.controller = controller;
+      },
+      cancel: () => this.markClosed()
+    });
+
+    this.response = new Response(body, { headers });
+  }
+
+  get isClosed(): boolean {
+    return this.closed;
+  }
+
+  // Queues raw SSE text; false once the stream is closed
+  write(chunk: string): boolean {
+    if (this.closed) return false;
+
+    try {
+      this.controller.enqueue(encoder.encode(chunk));
+      return true;
+    } catch {
+      this.markClosed();
+      return false;
+    }
+  }
+
+  close() {
+    if (this.closed) return;
+
+    try {
+      this.controller.close();
+    } catch {
+      // Already errored or cancelled by the reader
+    }
+    this.markClosed();
+  }
+
+  // Runs once the stream closes, or right away if it already has
+  onClose(handler: () => void) {
+    if (this.closed) {
+      handler();
+    } else {
+      this.closeHandlers.push(handler);
+    }
+  }
+
+  private markClosed() {
+    if (this.closed) return;
+    this.closed = true;
+
+    const handlers = this.closeHandlers;
+    this.closeHandlers = [];
+    handlers.forEach(handler => handler());
+  }
+}
@@ -0,0 +1,31 @@
+import { describe, expect, test } from 'bun:test';
+import { TaskETag } from './task-etag';
+
+function withIfMatch(value?: string): Request {
+  return new Request('http://localhost/api/tasks/42', {
+    method: 'PUT',
+    headers: value === undefined ? {} : { 'If-Match': value }
+  });
+}
+
+describe('TaskETag', () => {
+  test('derives the tag from the task id and version', () => {
+    expect(TaskETag.of({ id: 42, version: 7 })).toBe('"task-42-v7"');
+  });
+
+  test('treats a missing header or a wildcard as unconditional', () => {
+    expect(TaskETag.expectedVersion(withIfMatch(), 42)).toBeUndefined();
+    expect(TaskETag.expectedVersion(withIfMatch(' * '), 42)).toBeUndefined();
+  });
+
+  test('reads the version of the tag for this task, weak or strong', () => {
+    expect(TaskETag.expectedVersion(withIfMatch('"task-42-v7"'), 42)).toBe(7);
+    expect(TaskETag.expectedVersion(withIfMatch('W/"task-42-v3"'), 42)).toBe(3);
+    expect(TaskETag.expectedVersion(withIfMatch('"task-1-v9", "task-42-v5"'), 42)).toBe(5);
+  });
+
+  test('returns null when no listed tag can match', () => {
+    expect(TaskETag.expectedVersion(withIfMatch('"task-1-v9"'), 42)).toBeNull();
+    expect(TaskETag.expectedVersion(withIfMatch('"abc"'), 42)).toBeNull();
+  });
+});
@@ -0,0 +1,30 @@
+/**
+ * Task ETags for optimistic concurrency
+ *
+ * Tags are derived from the version column, e.g. "task-42-v7". Conditional
+ * writes send one back in If-Match and only apply to that version.
+ */
+
+import type { Task } from '../../../shared/types';
+
+export class TaskETag {
+  static of(task: Pick<Task, 'id' | 'version'>): string {
+    return `"task-${task.id}-v${task.version}"`;
+  }
+
+  // The version an If-Match header asks for: undefined when the request is
+  // unconditional (no header or "*"), null when no listed tag can match this task
+  static expectedVersion(request: Request, taskId: number): number | null | undefined {
+    const header = request.headers.get('If-Match');
+    if (!header || header.trim() === '*') return undefined;
+
+    for (const tag of header.split(',')) {
+      const match = tag.trim().match(/^(?:W\/)?"task-(\d+)-v(\d+)"$/);
+      if (match && parseInt(match[1]!) === taskId) {
+        return parseInt(match[2]!);
+      }
+    }
+
+    return null;
+  }
+}
@@ -0,0 +1,43 @@
+import { describe, expect, test } from 'bun:test';
+import { comesBefore, positionBetween, respace, POSITION_MIN_GAP, POSITION_STEP } from './task-position';
+
+describe('positionBetween', () => {
+  test('takes the midpoint of two neighbours', () => {
+    expect(positionBetween(1024, 2048)).toBe(1536);
+  });
+
+  test('steps away from a single neighbour and starts empty columns at one step', () => {
+    expect(positionBetween(null, null)).toBe(POSITION_STEP);
+    expect(positionBetween(null, 1024)).toBe(0);
+    expect(positionBetween(2048, null)).toBe(2048 + POSITION_STEP);
+  });
+
+  test('asks for a rebalance when neighbours are tied or too close', () => {
+    expect(positionBetween(2048, 2048)).toBeNull();
+    expect(positionBetween(1, 1 + POSITION_MIN_GAP / 2)).toBeNull();
+  });
+});
+
+describe('comesBefore', () => {
+  test('orders by position, then id for ties', () => {
+    expect(comesBefore({ id: 9, position: 1 }, { id: 1, position: 2 })).toBe(true);
+    expect(comesBefore({ id: 3, position: 2 }, { id: 7, position: 2 })).toBe(true);
+    expect(comesBefore({ id: 7, position: 2 }, { id: 3, position: 2 })).toBe(false);
+    expect(comesBefore({ id: 3, position: 2 }, { id: 3, position: 2 })).toBe(false);
+  });
+});
+
+describe('respace', () => {
+  test('spreads a column with ties into distinct positions in its order', () => {
+    // Two concurrent appends both landed on 2048
+    const column = [{ id: 1, position: 1024 }, { id: 4, position: 2048 }, { id: 5, position: 2048 }];
+    const respaced = respace([...column].sort((a, b) => (comesBefore(a, b) ? -1 : 1)));
+
+    expect(respaced).toEqual([
+      { id: 1, position: POSITION_STEP },
+      { id: 4, position: 2 * POSITION_STEP },
+      { id: 5, position: 3 * POSITION_STEP }
+    ]);
+    expect(positionBetween(respaced[1]!.position, respaced[2]!.position)).toBe(2.5 * POSITION_STEP);
+  });
+});
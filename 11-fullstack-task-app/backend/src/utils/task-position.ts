@@ -0,0 +1,38 @@
+/**
+ * Kanban position math
+ *
+ * Positions are fractional: new tasks go POSITION_STEP below the bottom of
+ * their column and a move takes the midpoint of its neighbours, so only the
+ * moved task is written. A column is ordered by (position, id): two tasks
+ * appended at the same moment can share a position, and the id keeps their
+ * order stable. Neighbours that are tied or closer than POSITION_MIN_GAP
+ * leave no room, and the column is respaced POSITION_STEP apart.
+ */
+
+export const POSITION_STEP = 1024;
+export const POSITION_MIN_GAP = 1e-6;
+
+export interface ColumnSlot {
+  id: number;
+  position: number;
+}
+
+// Whether `a` sorts above `b` in its column
+export function comesBefore(a: ColumnSlot, b: ColumnSlot): boolean {
+  return a.position < b.position || (a.position === b.position && a.id < b.id);
+}
+
+// Position strictly between the neighbours (null meaning the column edge), or
+// null when they are too close to split
+export function positionBetween(lower: number | null, upper: number | null): number | null {
+  if (lower === null && upper === null) return POSITION_STEP;
+  if (lower === null) return upper! - POSITION_STEP;
+  if (upper === null) return lower + POSITION_STEP;
+
+  return upper - lower < POSITION_MIN_GAP ? null : (lower + upper) / 2;
+}
+
+// Evenly spaced positions for a column given in display order
+export function respace<T extends { id: number }>(column: T[]): ColumnSlot[] {
+  return column.map((slot, index) => ({ id: slot.id, position: (index + 1) * POSITION_STEP }));
+}
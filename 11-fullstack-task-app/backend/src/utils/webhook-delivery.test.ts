@@ -0,0 +1,176 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test';
+import {
+  assertPublicHost,
+  isPrivateAddress,
+  nextWebhookAttempt,
+  sendWebhook,
+  webhookBackoff,
+  WEBHOOK_BACKOFF_BASE_MS,
+  WEBHOOK_BACKOFF_MAX_MS
+} from './webhook-delivery';
+import { SIGNATURE_HEADER, TIMESTAMP_HEADER, verifyWebhook } from './webhook-signature';
+
+const SECRET = 'whsec_test';
+
+interface Received {
+  path: string;
+  body: string;
+  valid: boolean;
+}
+
+describe('sendWebhook', () => {
+  let server: ReturnType<typeof Bun.serve>;
+  let failuresLeft = 0;
+  const received: Received[] = [];
+
+  beforeAll(() => {
+    server = Bun.serve({
+      hostname: '127.0.0.1',
+      port: 0,
+      async fetch(request) {
+        const path = new URL(request.url).pathname;
+        const body = await request.text();
+        const valid = verifyWebhook(
+          SECRET,
+          request.headers.get(SIGNATURE_HEADER) || '',
+          request.headers.get(TIMESTAMP_HEADER) || '',
+          body
+        );
+        received.push({ path, body, valid });
+
+        if (path === '/flaky' && failuresLeft > 0) {
+          failuresLeft--;
+          return new Response('internal details', { status: 500 });
+        }
+        if (path === '/redirect') {
+          return new Response('moved', { status: 302, headers: { Location: '/ok' } });
+        }
+        if (path === '/large') {
+          return new Response('x'.repeat(100_000));
+        }
+        return new Response('thanks');
+      }
+    });
+  });
+
+  afterAll(() => {
+    server.stop(true);
+  });
+
+  const send = (path: string, body = '{"type":"ping"}') => sendWebhook({
+    url: `http://127.0.0.1:${server.port}${path}`,
+    secret: SECRET,
+    body,
+    timeoutMs: 5000,
+    responseLimit: 1000,
+    allowPrivate: true
+  });
+
+  test('signs the body so the receiver can verify it', async () => {
+    const result = await send('/ok', '{"type":"task_created","id":"e1"}');
+
+    expect(result).toEqual({ ok: true, statusCode: 200, responseBody: 'thanks' });
+    expect(received.at(-1)).toEqual({ path: '/ok', body: '{"type":"task_created","id":"e1"}', valid: true });
+  });
+
+  test('reports a failed attempt and succeeds on retry', async () => {
+    failuresLeft = 1;
+
+    const first = await send('/flaky');
+    expect(first.ok).toBe(false);
+    expect(first.statusCode).toBe(500);
+    expect(first.responseBody).toBeUndefined();
+
+    const retryAt = nextWebhookAttempt(1, 8, 0, () => 0.5);
+    expect(retryAt).toBe(new Date(WEBHOOK_BACKOFF_BASE_MS).toISOString());
+
+    const second = await send('/flaky');
+    expect(second).toEqual({ ok: true, statusCode: 200, responseBody: 'thanks' });
+    expect(received.filter(entry => entry.path === '/flaky').every(entry => entry.valid)).toBe(true);
+  });
+
+  test('does not follow redirects or keep their body', async () => {
+    const result = await send('/redirect');
+
+    expect(result.ok).toBe(false);
+    expect(result.statusCode).toBe(302);
+    expect(result.responseBody).toBeUndefined();
+    expect(received.at(-1)!.path).toBe('/redirect');
+  });
+
+  test('keeps only the first responseLimit bytes of a large body', async () => {
+    const result = await send('/large');
+
+    expect(result.ok).toBe(true);
+    expect(result.responseBody).toBe('x'.repeat(1000));
+  });
+
+  test('refuses internal targets unless they are allowed', async () => {
+    const before = received.length;
+    const result = await sendWebhook({
+      url: `http://127.0.0.1:${server.port}/ok`,
+      secret: SECRET,
+      body: '{}',
+      timeoutMs: 5000,
+      responseLimit: 1000
+    });
+
+    expect(result.ok).toBe(false);
+    expect(result.error).toContain('internal address');
+    expect(received.length).toBe(before);
+  });
+});
+
+describe('assertPublicHost', () => {
+  test('rejects names that resolve to any internal address', async () => {
+    const resolve = async () => ['93.184.216.34', '10.0.0.5'];
+    await expect(assertPublicHost('hooks.example.com', resolve)).rejects.toThrow('internal address');
+  });
+
+  test('checks IPv4-mapped literals as URLs normalize them', async () => {
+    const host = new URL('http://[::ffff:169.254.169.254]/').hostname;
+    await expect(assertPublicHost(host)).rejects.toThrow('internal address');
+  });
+
+  test('accepts names that resolve only to public addresses', async () => {
+    const resolve = async () => ['93.184.216.34', '2606:2800:220:1:248:1893:25c8:1946'];
+    await expect(assertPublicHost('hooks.example.com', resolve)).resolves.toBeUndefined();
+  });
+});
+
+describe('isPrivateAddress', () => {
+  test('flags loopback, private, link-local and mapped addresses', () => {
+    for (const address of ['127.0.0.1', '10.1.2.3', '172.20.0.1', '192.168.1.1', '169.254.169.254',
+      '100.64.0.1', '0.0.0.0', '255.255.255.255', '::1', '::', 'fd00::1', 'fe80::1', '::ffff:127.0.0.1', '[::1]',
+      '[::ffff:127.0.0.1]', '::ffff:7f00:1', '[::ffff:a9fe:a9fe]', '0:0:0:0:0:ffff:0a00:0001', '64:ff9b::a9fe:a9fe']) {
+      expect(isPrivateAddress(address)).toBe(true);
+    }
+  });
+
+  test('allows public addresses', () => {
+    for (const address of ['93.184.216.34', '8.8.8.8', '172.32.0.1', '2606:4700::1111', '::ffff:8.8.8.8', '::ffff:808:808']) {
+      expect(isPrivateAddress(address)).toBe(false);
+    }
+  });
+});
+
+describe('webhookBackoff', () => {
+  test('doubles from the base delay and caps at the maximum', () => {
+    const noJitter = () => 0.5;
+
+    expect(webhookBackoff(1, noJitter)).toBe(WEBHOOK_BACKOFF_BASE_MS);
+    expect(webhookBackoff(2, noJitter)).toBe(2 * WEBHOOK_BACKOFF_BASE_MS);
+    expect(webhookBackoff(4, noJitter)).toBe(8 * WEBHOOK_BACKOFF_BASE_MS);
+    expect(webhookBackoff(30, noJitter)).toBe(WEBHOOK_BACKOFF_MAX_MS);
+  });
+
+  test('jitters within 20% either way', () => {
+    expect(webhookBackoff(1, () => 0)).toBe(0.8 * WEBHOOK_BACKOFF_BASE_MS);
+    expect(webhookBackoff(1, () => 1)).toBe(1.2 * WEBHOOK_BACKOFF_BASE_MS);
+  });
+
+  test('stops retrying once the attempts are used up', () => {
+    expect(nextWebhookAttempt(7, 8, 0, () => 0.5)).not.toBeNull();
+    expect(nextWebhookAttempt(8, 8, 0, () => 0.5)).toBeNull();
+  });
+});
@@ -0,0 +1,206 @@
+/**
+ * Sending one webhook request
+ *
+ * The target host is resolved right before each attempt and every address it
+ * resolves to must be public, so a hostname that was harmless when the webhook
+ * was saved cannot later be pointed at the internal network. Redirects are not
+ * followed. Only successful responses have their body kept, and at most
+ * `responseLimit` bytes of it are read.
+ */
+
+import { lookup } from 'dns/promises';
+import { isIP } from 'net';
+import { signWebhook, SIGNATURE_HEADER, TIMESTAMP_HEADER } from './webhook-signature';
+
+export interface WebhookRequest {
+  url: string;
+  secret: string;
+  body: string;
+  headers?: Record<string, string> | undefined;
+  timeoutMs: number;
+  responseLimit: number; // bytes of a successful response body kept
+  allowPrivate?: boolean | undefined; // lets local test receivers through
+}
+
+export interface WebhookResponse {
+  ok: boolean;
+  statusCode?: number | undefined;
+  responseBody?: string | undefined;
+  error?: string | undefined;
+}
+
+// Resolves a hostname to every address it maps to
+export type HostResolver = (hostname: string) => Promise<string[]>;
+
+const systemResolver: HostResolver = async hostname =>
+  (await lookup(hostname, { all: true, verbatim: true })).map(entry => entry.address);
+
+const PRIVATE_IPV4: Array<[prefix: number, bits: number]> = [
+  [0x00000000, 8], // "this" network
+  [0x0a000000, 8], // private
+  [0x64400000, 10], // carrier-grade NAT
+  [0x7f000000, 8], // loopback
+  [0xa9fe0000, 16], // link-local, including cloud metadata endpoints
+  [0xac100000, 12], // private
+  [0xc0000000, 24], // IETF protocol assignments
+  [0xc0a80000, 16], // private
+  [0xc6120000, 15], // benchmarking
+  [0xe0000000, 4], // multicast
+  [0xf0000000, 4] // reserved and broadcast
+];
+
+function ipv4ToNumber(address: string): number {
+  return address.split('.').reduce((value, part) => value * 256 + Number(part), 0);
+}
+
+function isPrivateIpv4(address: string): boolean {
+  const value = ipv4ToNumber(address);
+  return PRIVATE_IPV4.some(([prefix, bits]) => Math.floor(value / 2 ** (32 - bits)) === Math.floor(prefix / 2 ** (32 - bits)));
+}
+
+// The eight 16-bit groups of a valid IPv6 address; a trailing dotted IPv4
+// part becomes the last two groups
+function ipv6Groups(address: string): number[] {
+  let ip = address;
+  const dotted = ip.match(/(\d+)\.(\d+)\.(\d+)\.(\d+)$/);
+  if (dotted) {
+    const [a, b, c, d] = dotted.slice(1).map(Number) as [number, number, number, number];
+    ip = `${ip.slice(0, dotted.index)}${((a << 8) | b).toString(16)}:${((c << 8) | d).toString(16)}`;
+  }
+
+  const [head = '', tail] = ip.split('::');
+  const parse = (part: string) => (part ? part.split(':').map(group => parseInt(group, 16)) : []);
+  const front = parse(head);
+  const back = tail === undefined ? [] : parse(tail);
+
+  return [...front, ...new Array(8 - front.length - back.length).fill(0), ...back];
+}
+
+function groupsToIpv4(high: number, low: number): string {
+  return [high >> 8, high & 0xff, low >> 8, low & 0xff].join('.');
+}
+
+// IPv4-mapped (::ffff:a.b.c.d), IPv4-compatible (::a.b.c.d) and NAT64
+// (64:ff9b::a.b.c.d) addresses reach the embedded IPv4 address, whether
+// written dotted or in hex as URLs normalize them (::ffff:7f00:1)
+export function isPrivateAddress(address: string): boolean {
+  const ip = address.replace(/^\[|\]$/g, '').toLowerCase();
+
+  if (isIP(ip) === 4) return isPrivateIpv4(ip);
+  if (isIP(ip) !== 6) return true; // not an address at all
+
+  const groups = ipv6Groups(ip);
+  const [g0, g1, g2, g3, g4, g5, g6, g7] = groups as [number, number, number, number, number, number, number, number];
+  const zeroPrefix = g0 === 0 && g1 === 0 && g2 === 0 && g3 === 0 && g4 === 0;
+
+  if (zeroPrefix && g5 === 0xffff) return isPrivateIpv4(groupsToIpv4(g6, g7));
+  if (zeroPrefix && g5 === 0) return g6 === 0 && g7 <= 1 ? true : isPrivateIpv4(groupsToIpv4(g6, g7)); // ::, ::1
+  if (g0 === 0x64 && g1 === 0xff9b && g2 === 0 && g3 === 0 && g4 === 0 && g5 === 0) {
+    return isPrivateIpv4(groupsToIpv4(g6, g7));
+  }
+
+  return (g0 & 0xfe00) === 0xfc00 || // unique local
+    (g0 & 0xffc0) === 0xfe80 || // link-local
+    (g0 & 0xffc0) === 0xfec0 || // site-local (deprecated)
+    (g0 & 0xff00) === 0xff00; // multicast
+}
+
+// Throws unless every address the host resolves to is public
+export async function assertPublicHost(hostname: string, resolve: HostResolver = systemResolver): Promise<void> {
+  const host = hostname.replace(/^\[|\]$/g, '');
+  const addresses = isIP(host) ? [host] : await resolve(host);
+
+  if (addresses.length === 0) {
+    throw new Error(`${hostname} did not resolve to any address`);
+  }
+
+  if (addresses.some(isPrivateAddress)) {
+    throw new Error(`${hostname} resolves to an internal address`);
+  }
+}
+
+// Reads at most `limit` bytes of the body and drops the rest unread
+async function readLimited(response: Response, limit: number): Promise<string> {
+  if (!response.body) return '';
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+
+  try {
+    while (size < limit) {
+      const { value, done } = await reader.read();
+      if (done) break;
+
+      chunks.push(value.subarray(0, limit - size));
+      size += Math.min(value.length, limit - size);
+    }
+  } finally {
+    await reader.cancel().catch(() => undefined);
+  }
+
+  return new TextDecoder().decode(Buffer.concat(chunks));
+}
+
+export async function sendWebhook(
+  request: WebhookRequest,
+  resolve: HostResolver = systemResolver
+): Promise<WebhookResponse> {
+  const timestamp = Math.floor(Date.now() / 1000).toString();
+
+  try {
+    if (!request.allowPrivate) {
+      await assertPublicHost(new URL(request.url).hostname, resolve);
+    }
+
+    const response = await fetch(request.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...request.headers,
+        [TIMESTAMP_HEADER]: timestamp,
+        [SIGNATURE_HEADER]: signWebhook(request.secret, timestamp, request.body)
+      },
+      body: request.body,
+      redirect: 'manual',
+      signal: AbortSignal.timeout(request.timeoutMs)
+    });
+
+    if (!response.ok) {
+      await response.body?.cancel().catch(() => undefined);
+      return { ok: false, statusCode: response.status, error: `Endpoint responded with HTTP ${response.status}` };
+    }
+
+    return {
+      ok: true,
+      statusCode: response.status,
+      responseBody: await readLimited(response, request.responseLimit)
+    };
+  } catch (cause: any) {
+    return {
+      ok: false,
+      error: cause?.name === 'TimeoutError'
+        ? `No response within ${request.timeoutMs}ms`
+        : cause?.message || String(cause)
+    };
+  }
+}
+
+export const WEBHOOK_BACKOFF_BASE_MS = 30 * 1000;
+export const WEBHOOK_BACKOFF_MAX_MS = 6 * 60 * 60 * 1000;
+
+// 30s, 1m, 2m, 4m ... capped at 6h, with jitter so retries do not arrive in lockstep
+export function webhookBackoff(attempts: number, random: () => number = Math.random): number {
+  const delay = Math.min(WEBHOOK_BACKOFF_BASE_MS * 2 ** (attempts - 1), WEBHOOK_BACKOFF_MAX_MS);
+  return Math.round(delay * (0.8 + random() * 0.4));
+}
+
+// When to retry after `attempts` failed attempts, or null once they are used up
+export function nextWebhookAttempt(
+  attempts: number,
+  maxAttempts: number,
+  now = Date.now(),
+  random: () => number = Math.random
+): string | null {
+  return attempts >= maxAttempts ? null : new Date(now + webhookBackoff(attempts, random)).toISOString();
+}
@@ -0,0 +1,37 @@
+/**
+ * HMAC-SHA256 signatures for outgoing webhooks
+ *
+ * The signed content is `<timestamp>.<body>`, sent as
+ *   X-TaskFlow-Timestamp: 1760860800
+ *   X-TaskFlow-Signature: sha256=<hex digest>
+ *
+ * Receivers recompute the digest with the webhook's secret and reject old
+ * timestamps, so a captured request cannot be replayed later.
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+
+export const SIGNATURE_HEADER = 'X-TaskFlow-Signature';
+export const TIMESTAMP_HEADER = 'X-TaskFlow-Timestamp';
+
+export function signWebhook(secret: string, timestamp: string, body: string): string {
+  return 'sha256=' + createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+export function verifyWebhook(
+  secret: string,
+  signature: string,
+  timestamp: string,
+  body: string,
+  toleranceSeconds = 300,
+  now = Date.now()
+): boolean {
+  if (!/^\d+$/.test(timestamp) || Math.abs(now / 1000 - Number(timestamp)) > toleranceSeconds) {
+    return false;
+  }
+
+  const expected = Buffer.from(signWebhook(secret, timestamp, body));
+  const actual = Buffer.from(signature);
+
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
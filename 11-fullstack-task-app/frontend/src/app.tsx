@@ -63,8 +63,9 @@ async function initializeApp() {
       try {
         const response = await apiClient.get('/api/auth/me');
         if (response.data.success) {
+          // The request may have refreshed the token, so read it back
           useAuthStore.getState().setUser(response.data.data);
-          useAuthStore.getState().setToken(token);
+          useAuthStore.getState().setToken(localStorage.getItem('taskflow_token') || token);
 
           // Setup real-time connection
           setupSSE();
@@ -72,6 +73,7 @@ async function initializeApp() {
       } catch (error) {
         // Token invalid, remove it
         localStorage.removeItem('taskflow_token');
+        localStorage.removeItem('taskflow_refresh_token');
         delete apiClient.defaults.headers.common['Authorization'];
       }
     }
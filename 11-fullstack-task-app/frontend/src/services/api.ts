@@ -5,11 +5,13 @@
 
 import axios, { AxiosInstance, AxiosRequestConfig, AxiosResponse, AxiosError } from 'axios';
 import { toast } from 'react-hot-toast';
-import type { ApiResponse } from '@/types';
+import type { ApiResponse, AuthResponse } from '@/types';
 
 // API Configuration
 const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001';
 const DEFAULT_TIMEOUT = 30000; // 30 seconds
+const TOKEN_KEY = 'taskflow_token';
+const REFRESH_TOKEN_KEY = 'taskflow_refresh_token';
 
 // Create axios instance
 export const apiClient: AxiosInstance = axios.create({
@@ -24,7 +26,7 @@ export const apiClient: AxiosInstance = axios.create({
 apiClient.interceptors.request.use(
   (config) => {
     // Add auth token if available
-    const token = localStorage.getItem('taskflow_token');
+    const token = localStorage.getItem(TOKEN_KEY);
     if (token) {
       config.headers.Authorization = `Bearer ${token}`;
     }
@@ -61,7 +63,7 @@ apiClient.interceptors.response.use(
 
     return response;
   },
-  (error: AxiosError) => {
+  async (error: AxiosError) => {
     // Log error in development
     if (import.meta.env.DEV) {
       console.error(`❌ API Error: ${error.config?.method?.toUpperCase()} ${error.config?.url}`, {
@@ -71,6 +73,22 @@ apiClient.interceptors.response.use(
       });
     }
 
+    // Access tokens are short-lived: refresh once and replay the request
+    const originalRequest = error.config as (AxiosRequestConfig & { _retry?: boolean }) | undefined;
+    if (
+      error.response?.status === 401 &&
+      originalRequest &&
+      !originalRequest._retry &&
+      !originalRequest.url?.includes('/api/auth/')
+    ) {
+      originalRequest._retry = true;
+
+      const token = await refreshAccessToken();
+      if (token) {
+        return apiClient(originalRequest);
+      }
+    }
+
     // Handle different types of errors
     if (error.response) {
       // Server responded with error status
@@ -87,6 +105,59 @@ apiClient.interceptors.response.use(
   }
 );
 
+// Token refresh
+type TokenListener = (auth: AuthResponse) => void;
+
+const tokenListeners = new Set<TokenListener>();
+let refreshPromise: Promise<string | null> | null = null;
+
+// Lets the auth store follow tokens rotated by the interceptor
+export function onTokenRefreshed(listener: TokenListener): () => void {
+  tokenListeners.add(listener);
+  return () => tokenListeners.delete(listener);
+}
+
+// Exchange the stored refresh token for a new token pair.
+// Concurrent 401s share a single refresh request.
+export function refreshAccessToken(): Promise<string | null> {
+  if (!refreshPromise) {
+    refreshPromise = requestTokenRefresh().finally(() => {
+      refreshPromise = null;
+    });
+  }
+
+  return refreshPromise;
+}
+
+async function requestTokenRefresh(): Promise<string | null> {
+  const refreshToken = localStorage.getItem(REFRESH_TOKEN_KEY);
+  if (!refreshToken) {
+    return null;
+  }
+
+  try {
+    // Plain axios so the refresh call itself never goes through the interceptors
+    const response = await axios.post<ApiResponse<AuthResponse>>(
+      `${API_BASE_URL}/api/auth/refresh`,
+      { refreshToken },
+      { timeout: DEFAULT_TIMEOUT }
+    );
+
+    const auth = response.data.data;
+    if (!response.data.success || !auth) {
+      return null;
+    }
+
+    localStorage.setItem(TOKEN_KEY, auth.token);
+    localStorage.setItem(REFRESH_TOKEN_KEY, auth.refreshToken);
+    tokenListeners.forEach(listener => listener(auth));
+
+    return auth.token;
+  } catch {
+    return null;
+  }
+}
+
 // Generate unique request ID
 function generateRequestId(): string {
   return `req_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
@@ -99,7 +170,8 @@ function handleServerError(response: AxiosResponse) {
   switch (status) {
     case 401:
       // Unauthorized - clear token and redirect to login
-      localStorage.removeItem('taskflow_token');
+      localStorage.removeItem(TOKEN_KEY);
+      localStorage.removeItem(REFRESH_TOKEN_KEY);
       delete apiClient.defaults.headers.common['Authorization'];
       toast.error('Your session has expired. Please log in again.');
       // Redirect to login page (handled by router)
@@ -114,6 +186,10 @@ function handleServerError(response: AxiosResponse) {
       toast.error('The requested resource was not found.');
       break;
 
+    case 412:
+      // Edit conflict - the caller receives a ConflictError and decides how to merge
+      break;
+
     case 422:
       // Validation errors
       if (data.details && Array.isArray(data.details)) {
@@ -154,6 +230,19 @@ function handleRequestError(error: AxiosError) {
   toast.error('Invalid request configuration. Please try again.');
 }
 
+// Thrown when a conditional write (If-Match) lost against someone else's change.
+// `current` is the server's copy and `etag` the tag to send when retrying.
+export class ConflictError<T = any> extends Error {
+  constructor(
+    message: string,
+    public current?: T,
+    public etag?: string
+  ) {
+    super(message);
+    this.name = 'ConflictError';
+  }
+}
+
 // API Wrapper class for typed responses
 export class ApiService {
   static async get<T = any>(
@@ -181,13 +270,16 @@ export class ApiService {
     }
   }
 
+  // Pass the ETag from a previous response to only overwrite that version;
+  // a concurrent change then rejects with a ConflictError
   static async put<T = any>(
     url: string,
     data?: any,
-    config?: AxiosRequestConfig
+    config?: AxiosRequestConfig,
+    etag?: string
   ): Promise<ApiResponse<T>> {
     try {
-      const response = await apiClient.put<ApiResponse<T>>(url, data, config);
+      const response = await apiClient.put<ApiResponse<T>>(url, data, withIfMatch(config, etag));
       return response.data;
     } catch (error) {
       throw this.handleError(error);
@@ -209,10 +301,11 @@ export class ApiService {
 
   static async delete<T = any>(
     url: string,
-    config?: AxiosRequestConfig
+    config?: AxiosRequestConfig,
+    etag?: string
   ): Promise<ApiResponse<T>> {
     try {
-      const response = await apiClient.delete<ApiResponse<T>>(url, config);
+      const response = await apiClient.delete<ApiResponse<T>>(url, withIfMatch(config, etag));
       return response.data;
     } catch (error) {
       throw this.handleError(error);
@@ -247,6 +340,15 @@ export class ApiService {
   }
 
   private static handleError(error: any): Error {
+    if (error.response?.status === 412) {
+      const { error: message, data } = error.response.data || {};
+      return new ConflictError(
+        message || 'This item was changed by someone else',
+        data,
+        error.response.headers?.etag
+      );
+    }
+
     if (error.response?.data) {
       const { error: message, code } = error.response.data;
       return new Error(message || 'An unexpected error occurred');
@@ -258,6 +360,15 @@ export class ApiService {
   }
 }
 
+function withIfMatch(config: AxiosRequestConfig | undefined, etag: string | undefined): AxiosRequestConfig | undefined {
+  if (!etag) return config;
+
+  return {
+    ...config,
+    headers: { ...config?.headers, 'If-Match': etag },
+  };
+}
+
 // Retry utility for failed requests
 export async function retryRequest<T>(
   requestFn: () => Promise<T>,
@@ -7,10 +7,14 @@ import { useAuthStore } from '@/store/authStore';
 import { useTaskStore } from '@/store/taskStore';
 import { useNotificationStore } from '@/store/notificationStore';
 import toast from 'react-hot-toast';
-import type { RealtimeEvent, TaskEvent, CommentEvent, NotificationEvent } from '@/types';
+import type { RealtimeEvent, TaskEvent, TaskBulkEvent, TaskMovedEvent, CommentEvent, NotificationEvent } from '@/types';
+
+type ResyncListener = () => void;
 
 class RealtimeService {
   private eventSource: EventSource | null = null;
+  private lastEventId: string | null = null;
+  private resyncListeners = new Set<ResyncListener>();
   private reconnectAttempts = 0;
   private maxReconnectAttempts = 5;
   private reconnectDelay = 1000;
@@ -39,10 +43,15 @@ class RealtimeService {
     this.isConnecting = true;
 
     try {
-      const wsUrl = `${import.meta.env.VITE_WS_URL || 'http://localhost:3001/events'}`;
+      const wsUrl = new URL(`${import.meta.env.VITE_WS_URL || 'http://localhost:3001/events'}`);
+
+      // Resume where the previous connection stopped
+      if (this.lastEventId) {
+        wsUrl.searchParams.set('lastEventId', this.lastEventId);
+      }
 
       // Create EventSource connection
-      this.eventSource = new EventSource(wsUrl, {
+      this.eventSource = new EventSource(wsUrl.toString(), {
         withCredentials: true,
         headers: {
           'Authorization': `Bearer ${token}`,
@@ -63,6 +72,15 @@ class RealtimeService {
     }
   }
 
+  /**
+   * Register a callback for when missed events could not be replayed
+   * and local data has to be reloaded from the API
+   */
+  onResync(listener: ResyncListener): () => void {
+    this.resyncListeners.add(listener);
+    return () => this.resyncListeners.delete(listener);
+  }
+
   /**
    * Disconnect from SSE
    */
@@ -103,6 +121,10 @@ class RealtimeService {
 
     // Message received
     this.eventSource.onmessage = (event) => {
+      if (event.lastEventId) {
+        this.lastEventId = event.lastEventId;
+      }
+
       try {
         const data: RealtimeEvent = JSON.parse(event.data);
         this.handleRealtimeEvent(data);
@@ -174,6 +196,21 @@ class RealtimeService {
       case 'user_offline':
         console.log('👤 User went offline:', event.data);
         break;
+      case 'task_moved':
+        this.handleTaskMoved(event as TaskMovedEvent);
+        break;
+      case 'tasks_bulk_updated':
+        this.handleTasksBulkUpdated(event as TaskBulkEvent);
+        break;
+      case 'project_created':
+      case 'project_updated':
+      case 'project_archived':
+        console.log('📁 Project changed:', event.data);
+        break;
+      case 'resync_required':
+        console.warn('🔄 Missed events are no longer available, resyncing');
+        this.resyncListeners.forEach(listener => listener());
+        break;
       default:
         console.log('📡 Unknown event type:', event.type);
     }
@@ -255,6 +292,36 @@ class RealtimeService {
     });
   }
 
+  /**
+   * Handle Kanban moves, including a renumbered target column
+   */
+  private handleTaskMoved(event: TaskMovedEvent): void {
+    const { updateTask } = useTaskStore.getState();
+
+    event.data.rebalanced?.forEach(({ id, position }) => updateTask(id, { position }));
+    updateTask(event.data.task.id, event.data.task);
+  }
+
+  /**
+   * Handle batched task changes from bulk operations
+   */
+  private handleTasksBulkUpdated(event: TaskBulkEvent): void {
+    const { user } = useAuthStore.getState();
+    const { addTask, updateTask, removeTask } = useTaskStore.getState();
+
+    event.data.created.forEach(task => addTask(task));
+    event.data.updated.forEach(task => updateTask(task.id, task));
+    event.data.deleted.forEach(taskId => removeTask(taskId));
+
+    if (event.userId !== user?.id) {
+      const count = event.data.created.length + event.data.updated.length + event.data.deleted.length;
+      toast(`${count} task${count === 1 ? '' : 's'} changed`, {
+        icon: '🔄',
+        duration: 4000,
+      });
+    }
+  }
+
   /**
    * Handle comment events
    */
@@ -5,20 +5,21 @@
 
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
-import { ApiService } from '@/services/api';
+import { ApiService, onTokenRefreshed } from '@/services/api';
 import type { User, AuthRequest, RegisterRequest, ApiResponse, AuthResponse } from '@/types';
 
 interface AuthState {
   // State
   user: User | null;
   token: string | null;
+  refreshToken: string | null;
   isLoading: boolean;
   isAuthenticated: boolean;
 
   // Actions
   login: (credentials: AuthRequest) => Promise<void>;
   register: (userData: RegisterRequest) => Promise<void>;
-  logout: () => void;
+  logout: () => Promise<void>;
   setUser: (user: User) => void;
   setToken: (token: string) => void;
   clearAuth: () => void;
@@ -32,6 +33,7 @@ export const useAuthStore = create<AuthState>()(
       // Initial state
       user: null,
       token: null,
+      refreshToken: null,
       isLoading: false,
       isAuthenticated: false,
 
@@ -43,18 +45,20 @@ export const useAuthStore = create<AuthState>()(
           const response: ApiResponse<AuthResponse> = await ApiService.post('/api/auth/login', credentials);
 
           if (response.success && response.data) {
-            const { user, token } = response.data;
+            const { user, token, refreshToken } = response.data;
 
             // Store in Zustand state
             set({
               user,
               token,
+              refreshToken,
               isLoading: false,
               isAuthenticated: true,
             });
 
             // Store in localStorage for persistence
             localStorage.setItem('taskflow_token', token);
+            localStorage.setItem('taskflow_refresh_token', refreshToken);
 
             // Set default authorization header
             ApiService.apiClient.defaults.headers.common['Authorization'] = `Bearer ${token}`;
@@ -78,18 +82,20 @@ export const useAuthStore = create<AuthState>()(
           const response: ApiResponse<AuthResponse> = await ApiService.post('/api/auth/register', userData);
 
           if (response.success && response.data) {
-            const { user, token } = response.data;
+            const { user, token, refreshToken } = response.data;
 
             // Store in Zustand state
             set({
               user,
               token,
+              refreshToken,
               isLoading: false,
               isAuthenticated: true,
             });
 
             // Store in localStorage
             localStorage.setItem('taskflow_token', token);
+            localStorage.setItem('taskflow_refresh_token', refreshToken);
 
             // Set default authorization header
             ApiService.apiClient.defaults.headers.common['Authorization'] = `Bearer ${token}`;
@@ -106,19 +112,28 @@ export const useAuthStore = create<AuthState>()(
       },
 
       // Logout action
-      logout: () => {
-        const { user } = get();
+      logout: async () => {
+        const { user, refreshToken } = get();
+
+        // Revoke the session server-side; local state is cleared either way
+        try {
+          await ApiService.post('/api/auth/logout', { refreshToken });
+        } catch (error) {
+          console.error('❌ Logout error:', error);
+        }
 
         // Clear state
         set({
           user: null,
           token: null,
+          refreshToken: null,
           isLoading: false,
           isAuthenticated: false,
         });
 
         // Clear localStorage
         localStorage.removeItem('taskflow_token');
+        localStorage.removeItem('taskflow_refresh_token');
 
         // Clear authorization header
         delete ApiService.apiClient.defaults.headers.common['Authorization'];
@@ -143,11 +158,13 @@ export const useAuthStore = create<AuthState>()(
         set({
           user: null,
           token: null,
+          refreshToken: null,
           isLoading: false,
           isAuthenticated: false,
         });
 
         localStorage.removeItem('taskflow_token');
+        localStorage.removeItem('taskflow_refresh_token');
         delete ApiService.apiClient.defaults.headers.common['Authorization'];
       },
 
@@ -221,12 +238,18 @@ export const useAuthStore = create<AuthState>()(
       partialize: (state) => ({
         user: state.user,
         token: state.token,
+        refreshToken: state.refreshToken,
         isAuthenticated: state.isAuthenticated,
       }),
     }
   )
 );
 
+// Keep the store in sync when the API client rotates tokens
+onTokenRefreshed(({ user, token, refreshToken }) => {
+  useAuthStore.setState({ user, token, refreshToken, isAuthenticated: true });
+});
+
 // Export selector functions for optimized re-renders
 export const useAuth = () => useAuthStore((state) => state.user);
 export const useIsAuthenticated = () => useAuthStore((state) => state.isAuthenticated);
@@ -11,6 +11,7 @@ export interface User {
   createdAt: string;
   updatedAt: string;
   lastLoginAt?: string;
+  emailVerifiedAt?: string;
 }
 
 export interface Team {
@@ -59,10 +60,13 @@ export interface Task {
   tags: string[];
   dueDate?: string;
   estimatedHours?: number;
-  actualHours?: number;
+  actualHours?: number; // sum of the task's finished time entries
   createdAt: string;
   updatedAt: string;
   completedAt?: string;
+  version: number; // bumped on every write, sent back as the ETag
+  seriesId?: number; // set on every occurrence of a recurring task
+  position: number; // Kanban order within the task's (project, status) column, ascending
 
   // Relations
   project?: Project;
@@ -72,6 +76,33 @@ export interface Task {
   attachments?: Attachment[];
   dependencies?: Task[];
   dependents?: Task[];
+  isBlocked?: boolean; // true while any task in `dependencies` is not completed
+}
+
+// Repeats every `interval` days, weeks or months from the first occurrence's due date
+export interface RecurrenceRule {
+  frequency: 'daily' | 'weekly' | 'monthly';
+  interval: number;
+  weekdays?: number[] | undefined; // weekly only, 0 = Sunday
+  monthDay?: number | undefined; // monthly only, clamped to the length of the month
+  endsAt?: string | undefined;
+  count?: number | undefined; // total number of occurrences, including the first
+}
+
+export interface TaskSeries extends RecurrenceRule {
+  id: number;
+  projectId: number;
+  anchorAt: string;
+  occurrenceCount: number;
+  nextDueAt?: string; // unset once the schedule has run out or was stopped
+  lastTaskId?: number;
+  isActive: boolean;
+  createdBy: number;
+  createdAt: string;
+  updatedAt: string;
+
+  // Relations
+  occurrences?: Task[];
 }
 
 export interface Comment {
@@ -109,6 +140,36 @@ export interface Notification {
   readAt?: string;
 }
 
+export interface TimeEntry {
+  id: number;
+  taskId: number;
+  userId: number;
+  source: 'timer' | 'manual';
+  startedAt: string;
+  endedAt?: string; // unset while the timer is running
+  durationSeconds?: number;
+  note?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ActivityChange {
+  field: string;
+  from: any;
+  to: any;
+}
+
+export interface ActivityEntry {
+  id: number;
+  entityType: 'task';
+  entityId: number;
+  action: 'created' | 'updated' | 'deleted';
+  userId?: number;
+  changes: ActivityChange[];
+  createdAt: string;
+  user?: User;
+}
+
 // API Request/Response Types
 export interface ApiResponse<T = any> {
   success: boolean;
@@ -125,29 +186,84 @@ export interface PaginationInfo {
   totalPages: number;
   hasNextPage: boolean;
   hasPrevPage: boolean;
+  nextCursor?: string; // pass back as `cursor` to continue after the last item
 }
 
+// Optional fields may be explicitly undefined, as they are once validated
 export interface CreateTaskRequest {
   title: string;
-  description?: string;
+  description?: string | undefined;
   projectId: number;
-  assignedTo?: number;
-  priority?: Task['priority'];
-  tags?: string[];
-  dueDate?: string;
-  estimatedHours?: number;
+  assignedTo?: number | undefined;
+  priority?: Task['priority'] | undefined;
+  tags?: string[] | undefined;
+  dueDate?: string | undefined;
+  estimatedHours?: number | undefined;
+  recurrence?: RecurrenceRule | undefined; // makes the new task the first occurrence of a series
 }
 
 export interface UpdateTaskRequest {
+  title?: string | undefined;
+  description?: string | undefined;
+  projectId?: number | undefined;
+  assignedTo?: number | undefined;
+  status?: Task['status'] | undefined;
+  priority?: Task['priority'] | undefined;
+  tags?: string[] | undefined;
+  dueDate?: string | undefined;
+  estimatedHours?: number | undefined;
+}
+
+// Kanban move: afterId is the task that ends up directly above, beforeId the one
+// directly below. Give either or both; with neither the task goes to the bottom.
+export interface MoveTaskRequest {
+  status: Task['status'];
+  afterId?: number;
+  beforeId?: number;
+}
+
+// Applied to every occurrence of a series that is not completed yet
+export interface UpdateSeriesRequest {
   title?: string;
   description?: string;
   assignedTo?: number;
-  status?: Task['status'];
   priority?: Task['priority'];
   tags?: string[];
-  dueDate?: string;
   estimatedHours?: number;
-  actualHours?: number;
+}
+
+export interface BulkTaskRequest {
+  taskIds: number[];
+  action: 'update' | 'delete';
+  changes?: {
+    status?: Task['status'];
+    priority?: Task['priority'];
+    assignedTo?: number;
+    projectId?: number;
+    addTags?: string[];
+    removeTags?: string[];
+  };
+}
+
+export interface BulkTaskResult {
+  taskId: number;
+  success: boolean;
+  task?: Task;
+  error?: string;
+  code?: string;
+}
+
+export interface CreateTimeEntryRequest {
+  startedAt: string;
+  endedAt?: string;
+  durationMinutes?: number; // alternative to endedAt
+  note?: string;
+}
+
+export interface UpdateTimeEntryRequest {
+  startedAt?: string;
+  endedAt?: string;
+  note?: string;
 }
 
 export interface CreateProjectRequest {
@@ -184,46 +300,218 @@ export interface RegisterRequest extends AuthRequest {
 export interface AuthResponse {
   user: User;
   token: string;
-  expiresIn: number;
+  expiresIn: number; // access token lifetime in seconds
+  refreshToken: string;
+  refreshExpiresIn: number; // refresh token lifetime in seconds
+}
+
+export interface RefreshRequest {
+  refreshToken: string;
 }
 
 export interface LoginResponse extends ApiResponse<AuthResponse> {}
 
+export interface ForgotPasswordRequest {
+  email: string;
+}
+
+// Tokens arrive by email as the `token` query parameter of the reset/verify links
+export interface ResetPasswordRequest {
+  token: string;
+  password: string;
+  confirmPassword: string;
+}
+
+export interface ChangePasswordRequest {
+  currentPassword: string;
+  newPassword: string;
+  confirmPassword: string;
+}
+
+export interface VerifyEmailRequest {
+  token: string;
+}
+
 // Query and Filter Types
+// Filters are parsed from query strings, so an absent parameter may be explicitly undefined
 export interface TaskFilters {
-  projectId?: number;
-  assignedTo?: number;
-  status?: Task['status'];
-  priority?: Task['priority'];
-  tags?: string[];
+  projectId?: number | undefined;
+  assignedTo?: number | undefined;
+  status?: Task['status'] | undefined;
+  priority?: Task['priority'] | undefined;
+  tags?: string[] | undefined;
+  tagMatch?: 'any' | 'all' | undefined; // defaults to 'any'
   dueDateRange?: {
-    start: string;
-    end: string;
-  };
-  search?: string;
-  sortBy?: 'createdAt' | 'updatedAt' | 'dueDate' | 'priority';
-  sortOrder?: 'asc' | 'desc';
+    start?: string | undefined;
+    end?: string | undefined;
+  } | undefined;
+  search?: string | undefined;
+  sortBy?: 'createdAt' | 'updatedAt' | 'dueDate' | 'priority' | 'position' | undefined;
+  sortOrder?: 'asc' | 'desc' | undefined;
+  cursor?: string | undefined; // keyset pagination; takes precedence over page
 }
 
+// Filters are parsed from query strings, so an absent parameter may be explicitly undefined
 export interface ProjectFilters {
-  teamId?: number;
-  status?: Project['status'];
-  search?: string;
-  sortBy?: 'createdAt' | 'updatedAt' | 'dueDate' | 'name';
-  sortOrder?: 'asc' | 'desc';
+  teamId?: number | undefined;
+  status?: Project['status'] | undefined;
+  search?: string | undefined;
+  sortBy?: 'createdAt' | 'updatedAt' | 'dueDate' | 'name' | undefined;
+  sortOrder?: 'asc' | 'desc' | undefined;
 }
 
 export interface TeamFilters {
-  search?: string;
-  memberRole?: TeamMember['role'];
-  sortBy?: 'createdAt' | 'updatedAt' | 'name';
-  sortOrder?: 'asc' | 'desc';
+  search?: string | undefined;
+  memberRole?: TeamMember['role'] | undefined;
+  sortBy?: 'createdAt' | 'updatedAt' | 'name' | undefined;
+  sortOrder?: 'asc' | 'desc' | undefined;
+}
+
+export interface AuditFilters {
+  userId?: number | undefined;
+  entityType?: ActivityEntry['entityType'] | undefined;
+  entityId?: number | undefined;
+  action?: ActivityEntry['action'] | undefined;
+  from?: string | undefined;
+  to?: string | undefined;
+}
+
+export interface TimesheetFilters {
+  userId?: number | undefined;
+  projectId?: number | undefined;
+  from: string;
+  to: string;
+}
+
+// Report Types
+export interface TimesheetRow extends TimeEntry {
+  taskTitle: string;
+  projectId: number;
+  projectName: string;
+  userName: string;
+  userEmail: string;
+  hours: number;
+}
+
+export interface TimesheetReport {
+  from: string;
+  to: string;
+  totalHours: number;
+  entries: TimesheetRow[];
+}
+
+// Import/Export Types
+export type ExportFormat = 'csv' | 'ndjson' | 'json';
+
+export type TaskImportField =
+  'title' | 'description' | 'projectId' | 'assigneeEmail' | 'status' |
+  'priority' | 'tags' | 'dueDate' | 'estimatedHours';
+
+export interface TaskImportRequest {
+  csv: string;
+  mapping?: Partial<Record<TaskImportField, string>>; // field -> CSV header; defaults to same-named headers
+  projectId?: number; // used for rows without a projectId
+  dryRun?: boolean; // defaults to true
+}
+
+export interface TaskImportRow {
+  row: number; // 1-based, not counting the header
+  valid: boolean;
+  errors: string[];
+  data?: CreateTaskRequest & { status?: Task['status'] | undefined };
+  taskId?: number; // set once committed
+}
+
+export interface TaskImportReport {
+  dryRun: boolean;
+  committed: boolean;
+  total: number;
+  valid: number;
+  invalid: number;
+  rows: TaskImportRow[];
+}
+
+// Webhook Types
+export type WebhookEventType =
+  'task_created' | 'task_updated' | 'task_deleted' | 'task_moved' | 'tasks_bulk_updated' | 'comment_added' |
+  'project_created' | 'project_updated' | 'project_archived';
+
+export interface Webhook {
+  id: number;
+  teamId: number;
+  url: string;
+  eventTypes: WebhookEventType[];
+  isActive: boolean;
+  createdBy: number;
+  createdAt: string;
+  updatedAt: string;
+  secret?: string; // only returned when the webhook is created or its secret changes
+}
+
+export interface CreateWebhookRequest {
+  teamId: number;
+  url: string;
+  eventTypes: WebhookEventType[];
+  secret?: string | undefined; // generated when omitted
+  isActive?: boolean | undefined;
+}
+
+export interface UpdateWebhookRequest {
+  url?: string | undefined;
+  eventTypes?: WebhookEventType[] | undefined;
+  secret?: string | undefined;
+  isActive?: boolean | undefined;
+}
+
+// The JSON body POSTed to the webhook URL
+export interface WebhookPayload {
+  id: string; // the realtime event id; the same across redeliveries
+  type: WebhookEventType | 'ping';
+  teamId: number;
+  actorId?: number;
+  timestamp: string;
+  data: any;
+}
+
+export interface WebhookDelivery {
+  id: number;
+  webhookId: number;
+  eventId: string;
+  eventType: WebhookPayload['type'];
+  status: 'pending' | 'succeeded' | 'failed';
+  attempts: number;
+  nextAttemptAt?: string;
+  lastStatusCode?: number;
+  lastError?: string;
+  responseBody?: string; // first 1000 characters
+  payload: WebhookPayload;
+  createdAt: string;
+  updatedAt: string;
+  deliveredAt?: string;
+}
+
+// Search Types
+export interface SearchHit {
+  type: 'task' | 'comment' | 'project';
+  id: number;
+  title: string; // HTML-escaped, matches wrapped in <mark>
+  snippet: string; // HTML-escaped, matches wrapped in <mark>
+  rank: number;
+  taskId?: number;
+  projectId?: number;
+}
+
+export interface SearchResults {
+  query: string;
+  tasks: SearchHit[];
+  comments: SearchHit[];
+  projects: SearchHit[];
 }
 
 // Real-time Event Types
 export interface RealtimeEvent {
   id: string;
-  type: 'task_created' | 'task_updated' | 'task_deleted' | 'comment_added' | 'user_online' | 'user_offline' | 'notification';
+  type: 'task_created' | 'task_updated' | 'task_deleted' | 'task_moved' | 'tasks_bulk_updated' | 'comment_added' | 'project_created' | 'project_updated' | 'project_archived' | 'user_online' | 'user_offline' | 'notification' | 'resync_required';
   data: any;
   userId?: number;
   timestamp: string;
@@ -236,6 +524,38 @@ export interface TaskEvent extends RealtimeEvent {
   projectId: number;
 }
 
+export interface TaskPosition {
+  id: number;
+  position: number;
+}
+
+// Clients apply `rebalanced` (the renumbered target column, if any) before `task`
+export interface TaskMovedEvent extends RealtimeEvent {
+  type: 'task_moved';
+  data: {
+    task: Task;
+    previousStatus: Task['status'];
+    rebalanced?: TaskPosition[];
+  };
+  userId: number;
+}
+
+export interface TaskBulkEvent extends RealtimeEvent {
+  type: 'tasks_bulk_updated';
+  data: {
+    created: Task[];
+    updated: Task[];
+    deleted: number[];
+  };
+  userId: number;
+}
+
+export interface ProjectEvent extends RealtimeEvent {
+  type: 'project_created' | 'project_updated' | 'project_archived';
+  data: Project;
+  userId: number;
+}
+
 export interface CommentEvent extends RealtimeEvent {
   type: 'comment_added';
   data: Comment;
@@ -249,13 +569,15 @@ export interface NotificationEvent extends RealtimeEvent {
   userId: number;
 }
 
+export interface PresenceUser {
+  userId: number;
+  name: string;
+  avatar?: string | undefined;
+}
+
 export interface UserPresenceEvent extends RealtimeEvent {
   type: 'user_online' | 'user_offline';
-  data: {
-    userId: number;
-    name: string;
-    avatar?: string;
-  };
+  data: PresenceUser;
 }
 
 // UI State Types
@@ -323,6 +645,9 @@ export interface TaskAnalytics {
   completedTasks: number;
   inProgressTasks: number;
   overdueTasks: number;
+  completionRate: number; // percentage of tasks completed, 0-100
+  totalEstimatedHours: number;
+  totalActualHours: number;
   tasksByStatus: Record<Task['status'], number>;
   tasksByPriority: Record<Task['priority'], number>;
   tasksByProject: Array<{ projectId: number; projectName: string; count: number }>;